@@ -5,10 +5,16 @@ import ReportView from './components/ReportView';
 import DisclaimerModal from './components/DisclaimerModal';
 import { SidebarRight } from './components/SidebarRight';
 import { EmergencySheet } from './components/EmergencySheet';
-import { UserProfile, HikeDetails, ExperienceLevel, TripReport, RiskAnalysis, SaferAlternative, HistoryItem } from './types';
-import { generateTripReport, getQuickTip, performDeepSafetyCheck, generateSaferAlternatives } from './services/gemini';
+import { UserProfile, HikeDetails, ExperienceLevel, TripReport, RiskAnalysis, SaferAlternative, HistoryItem, StreamingTripReport, TripReportPart, ServiceError, ServiceResult, RouteTrack, RemotenessData } from './types';
+import { generateTripReport, streamTripReport, getQuickTip, performDeepSafetyCheck, generateSaferAlternatives } from './services/gemini';
 import { IconMountain, IconSparkles, IconInfo, IconFileText } from './components/Icons';
 import { calculateRiskAnalysis } from './utils/riskUtils';
+import { createRequestCoordinator } from './services/requestCoordinator';
+import { applyRouteTrack, parseRouteFile } from './utils/route';
+import { findDisagreements } from './utils/consistency';
+import { buildPacePlan } from './utils/pace';
+import { assessRemoteness, plbRecommendation } from './utils/remoteness';
+import { savedPackWeight } from './utils/gearCloset';
 
 const App: React.FC = () => {
   // Disclaimer State
@@ -51,12 +57,24 @@ const App: React.FC = () => {
     notes: ''
   });
 
+  // Imported GPX/KML/GeoJSON track; its measurements override the model's
+  const [routeTrack, setRouteTrack] = useState<RouteTrack | null>(null);
+  const [routeError, setRouteError] = useState<string | null>(null);
+  // Distance the track filled into an empty form field, and what was there before, so removing the track can undo it
+  const [routeDistanceFill, setRouteDistanceFill] = useState<{ filled: number; previous?: number } | null>(null);
+
   // Results
   const [report, setReport] = useState<TripReport | null>(null);
+  const [streamingReport, setStreamingReport] = useState<StreamingTripReport | null>(null);
+  // Tracks in-flight AI calls so a superseded response never reaches state
+  const [requests] = useState(createRequestCoordinator);
+  const [reportError, setReportError] = useState<ServiceError | null>(null);
   const [riskAnalysis, setRiskAnalysis] = useState<RiskAnalysis | null>(null);
   const [isThinking, setIsThinking] = useState(false);
   const [safetyVerdict, setSafetyVerdict] = useState<string | null>(null);
+  const [safetyCheckError, setSafetyCheckError] = useState<ServiceError | null>(null);
   const [alternatives, setAlternatives] = useState<SaferAlternative[] | null>(null);
+  const [alternativesError, setAlternativesError] = useState<ServiceError | null>(null);
   const [loadingAlternatives, setLoadingAlternatives] = useState(false);
 
   // History State
@@ -75,20 +93,34 @@ const App: React.FC = () => {
     }
   }, []);
 
-  const saveToHistory = (newReport: TripReport, risk: RiskAnalysis) => {
+  const saveToHistory = (newReport: TripReport, risk: RiskAnalysis, hike: HikeDetails = hikeDetails) => {
     const newItem: HistoryItem = {
       id: Date.now().toString(),
       timestamp: Date.now(),
-      trailName: hikeDetails.trailName,
+      trailName: hike.trailName,
       userProfile,
-      hikeDetails,
+      hikeDetails: hike,
       report: newReport,
-      riskAnalysis: risk
+      riskAnalysis: risk,
+      route: routeTrack ?? undefined
     };
 
-    const updatedHistory = [newItem, ...history].slice(0, 20); // Keep last 20
-    setHistory(updatedHistory);
-    localStorage.setItem('trailsense_history', JSON.stringify(updatedHistory));
+    // Merged duplicate requests and cache hits carry a report that's already saved; move that entry to the top
+    // rather than adding it again. A cache hit is a fresh copy, so match on the trip and when it was generated.
+    const sameRun = (item: HistoryItem) => item.report === newReport || (
+      newReport.generatedAt !== undefined
+      && item.report.generatedAt === newReport.generatedAt
+      && item.hikeDetails.trailName === hike.trailName
+      && item.hikeDetails.date === hike.date
+      && item.hikeDetails.startTime === hike.startTime
+    );
+
+    setHistory(prev => {
+      if (prev[0] && sameRun(prev[0])) return prev;
+      const updatedHistory = [newItem, ...prev.filter(item => !sameRun(item))].slice(0, 20); // Keep last 20
+      localStorage.setItem('trailsense_history', JSON.stringify(updatedHistory));
+      return updatedHistory;
+    });
   };
 
   const deleteHistoryItem = (id: string, e: React.MouseEvent) => {
@@ -99,13 +131,20 @@ const App: React.FC = () => {
   };
 
   const loadHistoryItem = (item: HistoryItem) => {
+    cancelReportRequests();
     setHikeDetails(item.hikeDetails);
     setUserProfile(item.userProfile);
+    setRouteTrack(item.route ?? null);
+    setRouteError(null);
+    setRouteDistanceFill(null);
     setReport(item.report);
     setRiskAnalysis(item.riskAnalysis);
     setActiveHistoryItem(item);
+    setReportError(null);
     setSafetyVerdict(null);
+    setSafetyCheckError(null);
     setAlternatives(null);
+    setAlternativesError(null);
     setStep('report');
   };
 
@@ -113,68 +152,181 @@ const App: React.FC = () => {
   const handleInputChange = (field: keyof HikeDetails, value: string | number) => {
     setHikeDetails(prev => ({ ...prev, [field]: value }));
     // Reset tips if location changes significantly
-    if (field === 'trailName') setQuickTip(null);
+    if (field === 'trailName') {
+      requests.cancel('quickTip');
+      setQuickTip(null);
+      setIsGettingTip(false);
+    }
+  };
+
+  // Blank inputs clear the entry so the model's answer is used
+  const handleRemotenessChange = <K extends keyof RemotenessData>(field: K, value: RemotenessData[K] | '') => {
+    setHikeDetails(prev => ({ ...prev, remoteness: { ...prev.remoteness, [field]: value === '' ? undefined : value } }));
+  };
+
+  const handleRouteFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Let the same file be picked again after removing it
+    if (!file) return;
+
+    try {
+      const track = parseRouteFile(file.name, await file.text());
+      setRouteTrack(track);
+      setRouteError(null);
+      // A distance the user typed stays; only an empty field (or one an earlier track filled) takes the track's
+      const typed = hikeDetails.distanceKm && hikeDetails.distanceKm !== routeDistanceFill?.filled ? hikeDetails.distanceKm : undefined;
+      const filled = parseFloat(track.stats.distanceKm.toFixed(1));
+      setRouteDistanceFill(typed === undefined
+        ? { filled, previous: routeDistanceFill ? routeDistanceFill.previous : hikeDetails.distanceKm }
+        : null);
+      setHikeDetails(prev => ({
+        ...prev,
+        trailName: prev.trailName || track.name || '',
+        distanceKm: typed ?? filled,
+      }));
+    } catch (err) {
+      console.error("Route import failed", err);
+      setRouteError(err instanceof Error ? err.message : "Couldn't read that file.");
+    }
+  };
+
+  const handleRemoveRoute = () => {
+    setRouteTrack(null);
+    setRouteError(null);
+    // Undo the track's fill unless the user has since typed over it
+    if (routeDistanceFill && hikeDetails.distanceKm === routeDistanceFill.filled) {
+      setHikeDetails(prev => ({ ...prev, distanceKm: routeDistanceFill.previous }));
+    }
+    setRouteDistanceFill(null);
+  };
+
+  // Measured track values replace the model's; applied inside the request so merged callers share one report
+  // The consistency check reruns against the model's own numbers, before the track replaces them
+  const withRoute = (result: ServiceResult<TripReport>, hike: HikeDetails): ServiceResult<TripReport> => {
+    if (!result.ok || !routeTrack) return result;
+    const { data, summary } = result.value;
+    const disagreements = findDisagreements(data, summary, hike, routeTrack);
+    return { ok: true, value: { ...result.value, data: { ...applyRouteTrack(data, routeTrack, hike.date), disagreements } } };
   };
 
   // Fast Model: Get a quick tip when trail name loses focus
   const handleBlurTrailName = async () => {
     if (hikeDetails.trailName.length > 3 && !quickTip) {
       setIsGettingTip(true);
-      const tip = await getQuickTip(hikeDetails);
-      setQuickTip(tip);
+      const key = `${hikeDetails.trailName}|${hikeDetails.location}|${hikeDetails.startTime}`;
+      const tip = await requests.run('quickTip', key, signal => getQuickTip(hikeDetails, signal));
+      if (!tip) return; // Trail name changed while we waited
+      setQuickTip(tip.ok ? tip.value : null); // The tip is optional; a failure just hides the bubble
       setIsGettingTip(false);
     }
   };
 
-  // Main Model: Submit form
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!hikeDetails.trailName || !hikeDetails.location) return;
+  // Answers about the report on screen; a new report makes them stale
+  const cancelDependentRequests = () => {
+    requests.cancel('safetyCheck');
+    requests.cancel('alternatives');
+    setIsThinking(false);
+    setLoadingAlternatives(false);
+  };
+
+  const cancelReportRequests = () => {
+    requests.cancel('report');
+    cancelDependentRequests();
+    setStreamingReport(null);
+    setIsGenerating(false);
+  };
+
+  // Streams a report into the view section by section (or serves it from the cache). Resolves null if superseded or cancelled.
+  const runStreamingReport = async (forceRefresh: boolean = false, hike: HikeDetails = hikeDetails): Promise<ServiceResult<TripReport> | null> => {
+    const key = JSON.stringify({ userProfile, hikeDetails: hike, beginnerMode, forceRefresh, route: routeTrack?.fileName });
+
+    const applyPart = (part: TripReportPart) => {
+      setStreamingReport(prev => {
+        if (part.section === 'data') return { ...prev, data: part.data };
+        if (part.section === 'summary') return { ...prev, summary: part.summary };
+        if (part.section === 'safety') return { ...prev, safety: part.safety };
+        return { ...prev, markdownContent: part.markdownContent };
+      });
+    };
 
+    const result = await requests.run('report', key, async signal => {
+      setStreamingReport({});
+      return withRoute(await streamTripReport(userProfile, hike, beginnerMode, applyPart, signal, forceRefresh), hike);
+    });
+    if (result) setStreamingReport(null);
+    return result;
+  };
+
+  const handleCancelGeneration = () => {
+    cancelReportRequests();
+    setStep('form');
+  };
+
+  // Fetches a report into the view. Failures show an error state and are never saved to history.
+  // `hike` overrides the form when the details were just changed in the same event (state hasn't updated yet)
+  const generateReport = async (text: string, forceRefresh: boolean = false, hike: HikeDetails = hikeDetails) => {
+    cancelDependentRequests();
     setStep('report');
     setReport(null);
+    setReportError(null);
     setRiskAnalysis(null);
+    setSafetyVerdict(null);
+    setSafetyCheckError(null);
     setAlternatives(null);
-    setActiveHistoryItem(null); // New run, not history
+    setAlternativesError(null);
 
-    setLoadingText("Checking weather and trail conditions...");
+    setLoadingText(text);
     setIsGenerating(true);
-    
-    // Generate the full grounded report with beginner mode preference
-    const result = await generateTripReport(userProfile, hikeDetails, beginnerMode);
-    
+
+    // Stream the full grounded report with beginner mode preference
+    const result = await runStreamingReport(forceRefresh, hike);
+    if (!result) return; // Superseded or cancelled
+    setIsGenerating(false);
+
+    if (!result.ok) {
+      setReportError(result.error);
+      return;
+    }
+
     // Calculate internal risk score based on the data returned by AI/Maps
-    const risk = calculateRiskAnalysis(userProfile, result.data, hikeDetails.startTime);
-    
-    setReport(result);
+    const risk = calculateRiskAnalysis(userProfile, result.value.data, hike.startTime, savedPackWeight(hike));
+
+    setReport(result.value);
     setRiskAnalysis(risk);
-    setIsGenerating(false);
 
     // Save this run
-    saveToHistory(result, risk);
+    saveToHistory(result.value, risk, hike);
+  };
+
+  // Main Model: Submit form
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!hikeDetails.trailName || !hikeDetails.location) return;
+
+    setActiveHistoryItem(null); // New run, not history
+    await generateReport("Checking weather and trail conditions...");
   };
 
   const handleReRunHistory = async () => {
     if (!activeHistoryItem) return;
-    
-    setStep('report');
-    setReport(null);
-    setRiskAnalysis(null);
-    setAlternatives(null);
-    setActiveHistoryItem(null);
-    
-    setLoadingText("Re-checking conditions for today...");
-    setIsGenerating(true);
 
-    const result = await generateTripReport(userProfile, hikeDetails, beginnerMode);
-    const risk = calculateRiskAnalysis(userProfile, result.data, hikeDetails.startTime);
-    
-    setReport(result);
-    setRiskAnalysis(risk);
-    setIsGenerating(false);
-    saveToHistory(result, risk);
+    setActiveHistoryItem(null);
+    await generateReport("Re-checking conditions for today...");
   }
 
+  // Skip the cache and ask the model for current conditions
+  const handleRefreshConditions = () => generateReport("Refreshing weather and trail conditions...", true);
+
+  const handleRetryReport = () => generateReport("Trying again...");
+
+  // Re-plan for a window picked from the optimizer
+  const handlePickWindow = (date: string, startTime: string) => {
+    const hike = { ...hikeDetails, date, startTime };
+    setHikeDetails(hike);
+    setActiveHistoryItem(null);
+    generateReport(`Re-planning for ${date} at ${startTime}...`, false, hike);
+  };
+
   // Handle Follow-up Question - Now used in Sidebar
   const handleFollowUp = async (question: string) => {
     if (!report) return;
@@ -188,21 +340,40 @@ const App: React.FC = () => {
       CONTENT: ${report.markdownContent}
     `;
 
-    const result = await generateTripReport(userProfile, hikeDetails, beginnerMode, question, previousContext);
+    setReportError(null);
+    const result = await requests.run('report', `followUp|${question}`, async signal =>
+      withRoute(await generateTripReport(userProfile, hikeDetails, beginnerMode, question, previousContext, signal), hikeDetails)
+    );
+    if (!result) return; // Superseded or cancelled
+    setIsGenerating(false);
+
+    // Keep the current plan on screen if the update failed
+    if (!result.ok) {
+      setReportError(result.error);
+      return;
+    }
     
     // Recalculate risk if data changed
-    const risk = calculateRiskAnalysis(userProfile, result.data, hikeDetails.startTime);
+    const risk = calculateRiskAnalysis(userProfile, result.value.data, hikeDetails.startTime, savedPackWeight(hikeDetails));
     
-    setReport(result);
+    setReport(result.value);
     setRiskAnalysis(risk);
-    setIsGenerating(false);
+  };
+
+  // Re-score when the trip's pack list changes; a history run keeps the analysis it was saved with
+  const handlePackWeightChange = (packWeightKg?: number) => {
+    if (!report || activeHistoryItem) return;
+    setRiskAnalysis(calculateRiskAnalysis(userProfile, report.data, hikeDetails.startTime, packWeightKg));
   };
 
   // Pro Model: Deep Safety Check
   const handleSafetyCheck = async () => {
     setIsThinking(true);
-    const verdict = await performDeepSafetyCheck(userProfile, hikeDetails);
-    setSafetyVerdict(verdict);
+    setSafetyCheckError(null);
+    const verdict = await requests.run('safetyCheck', 'deepCheck', signal => performDeepSafetyCheck(userProfile, hikeDetails, signal));
+    if (!verdict) return; // The report it was for has been replaced
+    if (verdict.ok) setSafetyVerdict(verdict.value);
+    else setSafetyCheckError(verdict.error);
     setIsThinking(false);
   };
 
@@ -210,11 +381,18 @@ const App: React.FC = () => {
   const handleGetAlternatives = async () => {
     if (!report || !riskAnalysis) return;
     setLoadingAlternatives(true);
-    const alts = await generateSaferAlternatives(userProfile, hikeDetails, riskAnalysis);
-    setAlternatives(alts);
+    setAlternativesError(null);
+    const alts = await requests.run('alternatives', 'alternatives', signal => generateSaferAlternatives(userProfile, hikeDetails, riskAnalysis, signal));
+    if (!alts) return; // The report it was for has been replaced
+    if (alts.ok) setAlternatives(alts.value);
+    else setAlternativesError(alts.error);
     setLoadingAlternatives(false);
   };
 
+  // Remote trips prefill the emergency sheet's PLB field
+  const remoteness = report ? assessRemoteness(report.data, buildPacePlan(report.data, hikeDetails.startTime, userProfile.fitness)) : null;
+  const plbSuggestion = remoteness?.recommendPlb ? plbRecommendation(remoteness) : undefined;
+
   // Tooltip Helper
   const Tooltip = ({ text }: { text: string }) => (
     beginnerMode ? (
@@ -312,6 +490,28 @@ const App: React.FC = () => {
                     </select>
                   </div>
                 </div>
+                <label className="flex items-center gap-2 text-sm text-stone-700 dark:text-stone-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    className="w-4 h-4 text-forest-600 rounded focus:ring-forest-500"
+                    checked={!!userProfile.acclimatized}
+                    onChange={(e) => setUserProfile({...userProfile, acclimatized: e.target.checked})}
+                  />
+                  Recently at altitude <Tooltip text="Tick if you've spent several days above 2,500 m in the last two weeks. It lowers the altitude-sickness risk on high trails." />
+                </label>
+                <label className="flex items-center gap-2 text-sm text-stone-700 dark:text-stone-300">
+                  Body weight
+                  <input
+                    type="number"
+                    min="20"
+                    max="250"
+                    placeholder="kg"
+                    className="w-20 bg-stone-50 dark:bg-stone-900 border border-stone-200 dark:border-stone-700 rounded-lg px-2 py-1 outline-none focus:ring-2 focus:ring-forest-300 text-sm text-stone-800 dark:text-stone-100 placeholder-stone-400"
+                    value={userProfile.bodyWeightKg ?? ''}
+                    onChange={(e) => setUserProfile({...userProfile, bodyWeightKg: e.target.value === '' ? undefined : parseFloat(e.target.value)})}
+                  />
+                  kg <Tooltip text="Optional. Used to estimate how much water and food you'll need; we assume 70 kg without it." />
+                </label>
 
                 <hr className="border-stone-100 dark:border-stone-700" />
 
@@ -379,6 +579,73 @@ const App: React.FC = () => {
                     </div>
                   </div>
 
+                  {/* Route File */}
+                  <div>
+                    <label className="block text-sm font-medium text-stone-700 dark:text-stone-300 mb-1">
+                      Route File <span className="text-stone-400 font-normal">(optional)</span> <Tooltip text="A GPX, KML or GeoJSON track. We measure distance and climbing from it instead of guessing." />
+                    </label>
+                    {routeTrack ? (
+                      <div className="flex items-center justify-between gap-3 bg-forest-50 dark:bg-forest-900/30 border border-forest-100 dark:border-forest-800 rounded-lg p-3">
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium text-stone-800 dark:text-stone-100 truncate">{routeTrack.name || routeTrack.fileName}</p>
+                          <p className="text-xs text-stone-500 dark:text-stone-400">
+                            {routeTrack.stats.distanceKm.toFixed(1)} km
+                            {routeTrack.stats.maxAltitudeM !== undefined
+                              ? ` • +${routeTrack.stats.gainM} m / -${routeTrack.stats.lossM} m • ${routeTrack.stats.minAltitudeM}–${routeTrack.stats.maxAltitudeM} m`
+                              : ' • no elevation data'}
+                          </p>
+                        </div>
+                        <button type="button" onClick={handleRemoveRoute} className="text-xs font-bold text-stone-500 hover:text-red-600 flex-shrink-0">Remove</button>
+                      </div>
+                    ) : (
+                      <input
+                        type="file"
+                        accept=".gpx,.kml,.geojson,.json,application/gpx+xml,application/vnd.google-earth.kml+xml,application/geo+json"
+                        onChange={handleRouteFile}
+                        className="w-full text-sm text-stone-600 dark:text-stone-300 file:mr-3 file:py-2 file:px-3 file:rounded-lg file:border-0 file:bg-stone-100 dark:file:bg-stone-700 file:text-stone-700 dark:file:text-stone-200 file:font-medium hover:file:bg-stone-200"
+                      />
+                    )}
+                    {routeError && <p className="mt-1 text-xs text-red-600 dark:text-red-400">{routeError}</p>}
+                  </div>
+
+                  {/* Remoteness: local knowledge beats search for signal and crowds */}
+                  <div>
+                    <label className="block text-sm font-medium text-stone-700 dark:text-stone-300 mb-1">
+                      Remoteness (optional) <Tooltip text="Leave blank to let the AI look it up. What you enter here replaces its answer." />
+                    </label>
+                    <div className="grid grid-cols-3 gap-2">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.5"
+                        placeholder="Km from road"
+                        className="w-full bg-stone-50 dark:bg-stone-900 border border-stone-200 dark:border-stone-700 rounded-lg p-3 outline-none focus:ring-2 focus:ring-forest-300 text-sm text-stone-800 dark:text-stone-100 placeholder-stone-400"
+                        value={hikeDetails.remoteness?.maxKmFromRoad ?? ''}
+                        onChange={(e) => handleRemotenessChange('maxKmFromRoad', e.target.value === '' ? '' : parseFloat(e.target.value))}
+                      />
+                      <select
+                        className="w-full bg-stone-50 dark:bg-stone-900 border border-stone-200 dark:border-stone-700 rounded-lg p-3 text-sm text-stone-800 dark:text-stone-200 focus:ring-2 focus:ring-forest-300 outline-none"
+                        value={hikeDetails.remoteness?.cellCoverage || ''}
+                        onChange={(e) => handleRemotenessChange('cellCoverage', e.target.value as RemotenessData['cellCoverage'] | '')}
+                      >
+                        <option value="">Cell signal?</option>
+                        <option value="good">Good signal</option>
+                        <option value="patchy">Patchy signal</option>
+                        <option value="none">No signal</option>
+                      </select>
+                      <select
+                        className="w-full bg-stone-50 dark:bg-stone-900 border border-stone-200 dark:border-stone-700 rounded-lg p-3 text-sm text-stone-800 dark:text-stone-200 focus:ring-2 focus:ring-forest-300 outline-none"
+                        value={hikeDetails.remoteness?.footTraffic || ''}
+                        onChange={(e) => handleRemotenessChange('footTraffic', e.target.value as RemotenessData['footTraffic'] | '')}
+                      >
+                        <option value="">Other hikers?</option>
+                        <option value="high">Busy</option>
+                        <option value="moderate">Some</option>
+                        <option value="low">Few or none</option>
+                      </select>
+                    </div>
+                  </div>
+
                   {/* Notes Input */}
                   <div>
                     <label className="block text-sm font-medium text-stone-700 dark:text-stone-300 mb-1">Notes / Gear / Specific Goals</label>
@@ -412,14 +679,14 @@ const App: React.FC = () => {
                         ← Back to Planner
                     </button>
                   </div>
-                  <EmergencySheet />
+                  <EmergencySheet plbSuggestion={plbSuggestion} />
              </div>
           ) : (
             // Report View
             <div className="max-w-4xl mx-auto">
               <div className="flex items-center justify-between mb-4">
                 <button 
-                    onClick={() => { setStep('form'); setReport(null); setSafetyVerdict(null); setRiskAnalysis(null); setAlternatives(null); setActiveHistoryItem(null); }}
+                    onClick={() => { cancelReportRequests(); setStep('form'); setReport(null); setSafetyVerdict(null); setRiskAnalysis(null); setAlternatives(null); setActiveHistoryItem(null); }}
                     className="text-sm text-stone-500 dark:text-stone-400 hover:text-forest-600 dark:hover:text-forest-400 flex items-center transition-colors"
                 >
                     ← Back to Plan
@@ -449,6 +716,16 @@ const App: React.FC = () => {
                 onReRunHistory={handleReRunHistory}
                 isBeginner={beginnerMode}
                 userProfile={userProfile}
+                streamingReport={streamingReport}
+                onCancelGeneration={handleCancelGeneration}
+                onRefreshConditions={handleRefreshConditions}
+                error={reportError}
+                onRetry={handleRetryReport}
+                safetyCheckError={safetyCheckError}
+                alternativesError={alternativesError}
+                onPickWindow={handlePickWindow}
+                route={routeTrack}
+                onPackWeightChange={handlePackWeightChange}
               />
             </div>
           )}
@@ -467,6 +744,7 @@ const App: React.FC = () => {
                 userProfile={userProfile}
                 onFollowUp={handleFollowUp}
                 isThinking={isGenerating} // Reusing generating state for thinking spinner in chat
+                followUpError={reportError}
                 onOpenEmergencySheet={() => setStep('emergency')}
              />
           </div>
@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Chat } from '@google/genai';
 import { createChatSession } from '../services/gemini';
+import { ChatSession } from '../services/providers';
 import { ChatMessage } from '../types';
 import { IconBot, IconSend, IconLifebuoy } from './Icons';
 
@@ -11,7 +11,7 @@ export const ChatAssistant: React.FC = () => {
   ]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const chatSessionRef = useRef<Chat | null>(null);
+  const chatSessionRef = useRef<ChatSession | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -36,11 +36,11 @@ export const ChatAssistant: React.FC = () => {
     setIsLoading(true);
 
     try {
-      const response = await chatSessionRef.current.sendMessage({ message: userMsg.text });
+      const responseText = await chatSessionRef.current.sendMessage(userMsg.text);
       const modelMsg: ChatMessage = {
         id: (Date.now() + 1).toString(),
         role: 'model',
-        text: response.text || "Sorry, I lost the trail. Can you ask that again?"
+        text: responseText || "Sorry, I lost the trail. Can you ask that again?"
       };
       setMessages(prev => [...prev, modelMsg]);
     } catch (error) {
@@ -0,0 +1,50 @@
+import React from 'react';
+import { GroundingSource } from '../types';
+import { IconLink, IconMap, IconSearch } from './Icons';
+
+// Superscript [n] that jumps to source n in the SourceList (1-based)
+export const CitationMark = ({ n }: { n: number }) => (
+  <sup className="ml-0.5 not-italic">
+    <a
+      href={`#source-${n}`}
+      className="text-[10px] font-bold text-forest-600 dark:text-forest-400 no-underline hover:underline"
+    >
+      [{n}]
+    </a>
+  </sup>
+);
+
+const SourceIcon = ({ source }: { source: GroundingSource }) => {
+  if (source.kind === 'maps') return <IconMap className="w-3.5 h-3.5 text-blue-500 flex-shrink-0 mt-0.5" />;
+  if (source.kind === 'retrieved') return <IconLink className="w-3.5 h-3.5 text-stone-400 flex-shrink-0 mt-0.5" />;
+  return <IconSearch className="w-3.5 h-3.5 text-stone-400 flex-shrink-0 mt-0.5" />;
+};
+
+// Numbered grounding sources; citation marks elsewhere in the report link here
+export const SourceList = ({ sources }: { sources: GroundingSource[] }) => {
+  if (sources.length === 0) return null;
+
+  return (
+    <div className="mt-8 pt-4 border-t border-stone-100 dark:border-stone-700">
+      <h4 className="text-xs font-bold text-stone-500 dark:text-stone-400 uppercase tracking-wider mb-3">Sources</h4>
+      <ol className="space-y-2">
+        {sources.map((source, i) => (
+          <li key={i} id={`source-${i + 1}`} className="flex items-start gap-2 text-xs text-stone-600 dark:text-stone-300 scroll-mt-4">
+            <span className="font-mono font-bold text-forest-600 dark:text-forest-400 w-6 flex-shrink-0">[{i + 1}]</span>
+            <SourceIcon source={source} />
+            <div className="min-w-0">
+              <a href={source.uri} target="_blank" rel="noopener noreferrer" className="font-medium hover:underline break-words">
+                {source.title}
+              </a>
+              {source.coordinates && (
+                <span className="block text-[10px] font-mono text-stone-400">
+                  {source.coordinates.lat.toFixed(4)}, {source.coordinates.lng.toFixed(4)}
+                </span>
+              )}
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
@@ -0,0 +1,30 @@
+import React from 'react';
+import { TripData, TripDataField } from '../types';
+import { getProvenance, isUnverified, describeProvenance } from '../utils/provenance';
+import { CitationMark } from './Citations';
+
+interface DataValueProps {
+  data: TripData;
+  field: TripDataField;
+  children: React.ReactNode;
+  className?: string;
+  sources?: number[]; // Indices into TripReport.sources that back this value
+}
+
+// Renders a TripData value, dimmed with a dashed underline when it's a placeholder or low-confidence guess.
+export const DataValue: React.FC<DataValueProps> = ({ data, field, children, className = "", sources = [] }) => {
+  const provenance = getProvenance(data, field);
+  const unverified = isUnverified(data, field);
+
+  return (
+    <span
+      title={describeProvenance(provenance)}
+      className={`${className} ${unverified ? 'italic text-stone-400 dark:text-stone-500 border-b border-dashed border-stone-400 cursor-help' : ''}`}
+    >
+      {children}
+      {unverified && <sup className="ml-0.5 text-[9px] not-italic font-bold text-amber-500">?</sup>}
+      {provenance.source === 'user' && <sup className="ml-0.5 text-[9px] font-bold text-forest-500">you</sup>}
+      {provenance.source === 'grounded' && sources.map(i => <CitationMark key={i} n={i + 1} />)}
+    </span>
+  );
+};
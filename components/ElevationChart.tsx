@@ -0,0 +1,167 @@
+import React, { useMemo, useState } from 'react';
+import { PacePlan, RouteTrack, TripData } from '../types';
+import { elevationSeries, elevationAtKm, gradeSegments, gradeColor, steepestSegments, GRADE_BANDS } from '../utils/elevation';
+import { formatMinutes, kmAtTime, minutesAtKm, toMinutes } from '../utils/pace';
+
+interface ElevationChartProps {
+  data: TripData;
+  pace: PacePlan;
+  startTime: string;
+  track?: RouteTrack | null; // Full-resolution profile when a route was imported
+}
+
+// SVG coordinate space; the chart scales to its container
+const W = 600;
+const H = 200;
+const PAD = { top: 12, right: 12, bottom: 24, left: 44 };
+const PLOT_W = W - PAD.left - PAD.right;
+const PLOT_H = H - PAD.top - PAD.bottom;
+
+// Distance-based elevation profile shaded by grade, with turnaround/sunset markers and a hover readout
+export const ElevationChart: React.FC<ElevationChartProps> = ({ data, pace, startTime, track }) => {
+  const [hoverKm, setHoverKm] = useState<number | null>(null);
+
+  const series = useMemo(() => elevationSeries(data, track), [data, track]);
+  const grades = useMemo(() => gradeSegments(series), [series]);
+  const steepest = useMemo(() => steepestSegments(series), [series]);
+
+  const points = series.points;
+  const totalKm = points[points.length - 1]?.km ?? 0;
+  if (points.length < 2 || totalKm <= 0) return null;
+
+  const elevations = points.map(p => p.ele);
+  const minEle = Math.min(...elevations);
+  const maxEle = Math.max(...elevations);
+  const span = Math.max(maxEle - minEle, 20); // Keep flat routes from filling the chart with noise
+  const floor = minEle - span * 0.05;
+  const ceiling = floor + span * 1.1;
+
+  const x = (km: number) => PAD.left + (km / totalKm) * PLOT_W;
+  const y = (ele: number) => PAD.top + PLOT_H - ((ele - floor) / (ceiling - floor)) * PLOT_H;
+  const baseline = PAD.top + PLOT_H;
+
+  const line = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(p.km).toFixed(1)},${y(p.ele).toFixed(1)}`).join(' ');
+
+  // One filled band per grade segment, following the profile between its ends
+  const bandPath = (fromKm: number, toKm: number) => {
+    const inside = points.filter(p => p.km > fromKm && p.km < toKm);
+    const edge = [{ km: fromKm, ele: elevationAtKm(points, fromKm) }, ...inside, { km: toKm, ele: elevationAtKm(points, toKm) }];
+    return `M${x(fromKm)},${baseline} ${edge.map(p => `L${x(p.km).toFixed(1)},${y(p.ele).toFixed(1)}`).join(' ')} L${x(toKm)},${baseline} Z`;
+  };
+
+  const sunset = data.solar?.sunset ?? data.sunsetTime;
+  const sunsetKm = sunset ? kmAtTime(pace, startTime, sunset) : null;
+
+  const yTicks = [floor + (ceiling - floor) * 0.1, floor + (ceiling - floor) * 0.5, floor + (ceiling - floor) * 0.9];
+  const xStep = totalKm > 20 ? 5 : totalKm > 8 ? 2 : 1;
+  const xTicks = Array.from({ length: Math.floor(totalKm / xStep) + 1 }, (_, i) => i * xStep);
+
+  const handlePointer = (clientX: number, target: SVGSVGElement) => {
+    const rect = target.getBoundingClientRect();
+    const svgX = ((clientX - rect.left) / rect.width) * W;
+    const km = ((svgX - PAD.left) / PLOT_W) * totalKm;
+    setHoverKm(Math.min(totalKm, Math.max(0, km)));
+  };
+
+  const hover = hoverKm === null ? null : {
+    km: hoverKm,
+    ele: elevationAtKm(points, hoverKm),
+    grade: grades.find(g => hoverKm >= g.fromKm && hoverKm <= g.toKm)?.gradePct ?? 0,
+    eta: formatMinutes(toMinutes(startTime) + minutesAtKm(pace, hoverKm)),
+  };
+
+  const unit = series.absolute ? 'm' : 'm above start';
+
+  return (
+    <div>
+      <div className="relative">
+        <svg
+          viewBox={`0 0 ${W} ${H}`}
+          className="w-full h-auto select-none touch-none"
+          onMouseMove={e => handlePointer(e.clientX, e.currentTarget)}
+          onMouseLeave={() => setHoverKm(null)}
+          onTouchStart={e => handlePointer(e.touches[0].clientX, e.currentTarget)}
+          onTouchMove={e => handlePointer(e.touches[0].clientX, e.currentTarget)}
+          onTouchEnd={() => setHoverKm(null)}
+        >
+          {/* Grade shading */}
+          {grades.map((g, i) => (
+            <path key={i} d={bandPath(g.fromKm, g.toKm)} fill={gradeColor(g.gradePct)} fillOpacity={0.55} />
+          ))}
+          <path d={line} fill="none" stroke="currentColor" strokeWidth={1.5} className="text-stone-700 dark:text-stone-200" />
+
+          {/* Axes */}
+          <line x1={PAD.left} y1={baseline} x2={W - PAD.right} y2={baseline} stroke="currentColor" className="text-stone-300 dark:text-stone-600" />
+          {yTicks.map(t => (
+            <text key={t} x={PAD.left - 4} y={y(t) + 3} textAnchor="end" fontSize={10} fill="currentColor" className="text-stone-400">
+              {Math.round(t)}
+            </text>
+          ))}
+          {xTicks.map(km => (
+            <text key={km} x={x(km)} y={H - 8} textAnchor="middle" fontSize={10} fill="currentColor" className="text-stone-400">
+              {km}
+            </text>
+          ))}
+          <text x={W - PAD.right} y={H - 8} textAnchor="end" fontSize={10} fill="currentColor" className="text-stone-400">km</text>
+
+          {/* Markers */}
+          <line x1={x(pace.turnaroundKm)} y1={PAD.top} x2={x(pace.turnaroundKm)} y2={baseline} stroke="#f59e0b" strokeWidth={1.5} strokeDasharray="4 3" />
+          <text x={x(pace.turnaroundKm) + 4} y={PAD.top + 10} fontSize={10} fill="#b45309">Turnaround {pace.turnaround}</text>
+          {sunsetKm !== null && (
+            <>
+              <line x1={x(sunsetKm)} y1={PAD.top} x2={x(sunsetKm)} y2={baseline} stroke="#ea580c" strokeWidth={1.5} strokeDasharray="2 2" />
+              <text x={x(sunsetKm) + 4} y={PAD.top + 24} fontSize={10} fill="#c2410c">Sunset {sunset}</text>
+            </>
+          )}
+
+          {/* Hover */}
+          {hover && (
+            <>
+              <line x1={x(hover.km)} y1={PAD.top} x2={x(hover.km)} y2={baseline} stroke="currentColor" strokeWidth={1} className="text-stone-500" />
+              <circle cx={x(hover.km)} cy={y(hover.ele)} r={3.5} fill="currentColor" className="text-stone-800 dark:text-white" />
+            </>
+          )}
+        </svg>
+
+        {hover && (
+          <div
+            className="absolute top-0 pointer-events-none bg-stone-800 text-white text-[10px] font-mono rounded px-2 py-1 shadow-lg whitespace-nowrap"
+            style={{ left: `${(x(hover.km) / W) * 100}%`, transform: hover.km > totalKm / 2 ? 'translateX(calc(-100% - 8px))' : 'translateX(8px)' }}
+          >
+            <div>km {hover.km.toFixed(2)} • {Math.round(hover.ele)} {unit}</div>
+            <div>{hover.grade >= 0 ? '+' : ''}{hover.grade.toFixed(0)}% grade • ETA {hover.eta}</div>
+          </div>
+        )}
+      </div>
+
+      {/* Legend */}
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-2 text-[10px] text-stone-500 dark:text-stone-400">
+        {[...GRADE_BANDS].reverse().map(b => (
+          <span key={b.label} className="flex items-center gap-1">
+            <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: b.color, opacity: 0.8 }}></span>{b.label}
+          </span>
+        ))}
+        {!series.measured && <span className="italic">Shape assumed; import a track or check the route for real grades</span>}
+      </div>
+
+      {/* Steepest segments */}
+      {steepest.length > 0 && (
+        <div className="mt-3">
+          <h5 className="text-[10px] uppercase font-bold text-stone-400 mb-1">Steepest Sections</h5>
+          <ul className="space-y-1">
+            {steepest.map((s, i) => (
+              <li key={i} className="flex items-center gap-2 text-xs text-stone-600 dark:text-stone-300">
+                <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: gradeColor(s.gradePct) }}></span>
+                <span className="font-mono">km {s.fromKm.toFixed(1)}–{s.toKm.toFixed(1)}</span>
+                <span className="font-bold">{s.gradePct > 0 ? '↑' : '↓'} {Math.abs(s.gradePct).toFixed(0)}%</span>
+                <span className="text-stone-400">
+                  around {formatMinutes(toMinutes(startTime) + minutesAtKm(pace, s.fromKm))}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
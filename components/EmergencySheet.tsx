@@ -1,23 +1,39 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import ReactMarkdown from 'react-markdown';
-import { EmergencyContactData } from '../types';
+import { EmergencyContactData, ServiceError } from '../types';
 import { CollapsiblePanel } from './CollapsiblePanel';
+import { ServiceErrorNotice } from './ServiceErrorNotice';
+import { createRequestCoordinator } from '../services/requestCoordinator';
 import { generateEmergencySheet } from '../services/gemini';
+import { loadEmergencyContact, saveEmergencyContact } from '../utils/emergencyContact';
 import { IconWarning, IconUser, IconPhone, IconMap, IconCompass, IconCloud, IconFileText, IconPrinter, IconClipboard, IconCheck } from './Icons';
 
-export const EmergencySheet: React.FC = () => {
+interface EmergencySheetProps {
+  plbSuggestion?: string; // Set when the planned trip is remote enough to call for a beacon
+}
+
+export const EmergencySheet: React.FC<EmergencySheetProps> = ({ plbSuggestion }) => {
   const [isGenerating, setIsGenerating] = useState(false);
   const [generatedContent, setGeneratedContent] = useState<string | null>(null);
+  const [error, setError] = useState<ServiceError | null>(null);
+  const [requests] = useState(createRequestCoordinator);
+
+  useEffect(() => () => requests.cancelAll(), []);
   const [showWarning, setShowWarning] = useState(true);
   const [copied, setCopied] = useState(false);
 
-  const [formData, setFormData] = useState<EmergencyContactData>({
+  // A beacon the user already saved wins over the suggestion
+  const withPlbSuggestion = (data: EmergencyContactData): EmergencyContactData =>
+    data.plbInfo || !plbSuggestion ? data : { ...data, plbInfo: plbSuggestion };
+
+  const [formData, setFormData] = useState<EmergencyContactData>(() => withPlbSuggestion({
     fullName: '', phone: '', email: '', age: '', medicalConditions: '', allergies: '', medications: '', bloodType: '', vehicleInfo: '',
     contactName: '', contactRelationship: '', contactPhone: '', contactEmail: '',
     tripName: '', trailhead: '', region: '', route: '', startDateTime: '', returnDateTime: '', groupMembers: '', campsites: '',
     plbInfo: '', navMethod: '', gearChecklist: [],
-    weather: '', terrain: 'Moderate', hazards: ''
-  });
+    weather: '', terrain: 'Moderate', hazards: '',
+    ...loadEmergencyContact(),
+  }));
 
   const handleChange = (field: keyof EmergencyContactData, value: any) => {
     setFormData(prev => ({ ...prev, [field]: value }));
@@ -33,8 +49,12 @@ export const EmergencySheet: React.FC = () => {
 
   const handleSubmit = async () => {
     setIsGenerating(true);
-    const result = await generateEmergencySheet(formData);
-    setGeneratedContent(result);
+    setError(null);
+    saveEmergencyContact(formData);
+    const result = await requests.run('sheet', JSON.stringify(formData), signal => generateEmergencySheet(formData, signal));
+    if (!result) return; // Left the page
+    if (result.ok) setGeneratedContent(result.value);
+    else setError(result.error);
     setIsGenerating(false);
   };
 
@@ -219,6 +239,9 @@ export const EmergencySheet: React.FC = () => {
            <div className="space-y-4">
                 <input type="text" placeholder="PLB / InReach Model & HEX ID" className="w-full p-3 rounded-lg border dark:bg-stone-900 dark:border-stone-700 outline-none focus:ring-2 focus:ring-forest-500"
                     value={formData.plbInfo} onChange={e => handleChange('plbInfo', e.target.value)} />
+                {plbSuggestion && (
+                    <p className="-mt-2 text-xs text-amber-700 dark:text-amber-300">This trip is remote enough that a personal locator beacon is recommended.</p>
+                )}
                 <input type="text" placeholder="Navigation Method (e.g. Gaia GPS + Paper Map)" className="w-full p-3 rounded-lg border dark:bg-stone-900 dark:border-stone-700 outline-none focus:ring-2 focus:ring-forest-500"
                     value={formData.navMethod} onChange={e => handleChange('navMethod', e.target.value)} />
                 
@@ -263,6 +286,10 @@ export const EmergencySheet: React.FC = () => {
           </div>
       </CollapsiblePanel>
 
+      {error && !isGenerating && (
+        <ServiceErrorNotice error={error} title="Couldn't generate the sheet" onRetry={handleSubmit} />
+      )}
+
       <button 
         onClick={handleSubmit}
         disabled={isGenerating}
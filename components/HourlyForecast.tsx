@@ -0,0 +1,66 @@
+import React from 'react';
+import { PacePlan, WeatherForecast } from '../types';
+import { HourlyRisk } from '../utils/riskUtils';
+import { kmAtTime, toMinutes, formatMinutes } from '../utils/pace';
+
+interface HourlyForecastProps {
+  forecast: WeatherForecast;
+  hourlyRisk: HourlyRisk[]; // Weather rules scored one hour at a time
+  pace: PacePlan;
+  startTime: string;
+}
+
+const SOURCE_LABEL: Record<string, string> = {
+  'ai-grounded': 'AI with Google Search',
+  fixture: 'offline fixture',
+};
+
+// Hour-by-hour strip: the hours on the trail are outlined with where you'll be, and hours the weather rules flag are tinted
+export const HourlyForecast: React.FC<HourlyForecastProps> = ({ forecast, hourlyRisk, pace, startTime }) => {
+  const start = toMinutes(startTime);
+  const end = start + pace.totalMinutes;
+
+  return (
+    <div>
+      <div className="flex gap-1.5 overflow-x-auto pb-2">
+        {hourlyRisk.map(({ hour, factors }) => {
+          const from = toMinutes(hour.time);
+          const onTrail = from + 60 > start && from < end;
+          const km = onTrail ? kmAtTime(pace, startTime, formatMinutes(Math.max(start, from))) : null;
+          const score = Math.max(0, ...factors.map(f => f.score));
+          return (
+            <div
+              key={hour.time}
+              title={factors.map(f => `${f.name}: ${f.description}`).join('\n') || undefined}
+              className={`flex-shrink-0 w-[4.5rem] rounded-lg border p-1.5 text-center text-[10px] ${
+                onTrail ? 'border-forest-500 dark:border-forest-400' : 'border-stone-200 dark:border-stone-700 opacity-60'
+              } ${
+                score >= 2 ? 'bg-red-50 dark:bg-red-900/20' : score === 1 ? 'bg-amber-50 dark:bg-amber-900/20' : 'bg-stone-50 dark:bg-stone-900'
+              }`}
+            >
+              <p className="font-mono font-bold text-stone-700 dark:text-stone-200">{hour.time}</p>
+              <p className="text-[9px] text-stone-400 h-6 leading-tight overflow-hidden">{hour.condition || ''}</p>
+              <p className="text-sm font-bold text-stone-800 dark:text-stone-100">{Math.round(hour.tempC)}°</p>
+              {hour.feelsLikeC !== undefined && <p className="text-stone-400">feels {Math.round(hour.feelsLikeC)}°</p>}
+              {(hour.windKph !== undefined || hour.gustKph !== undefined) && (
+                <p className="text-stone-500 dark:text-stone-400">
+                  {hour.windKph !== undefined ? Math.round(hour.windKph) : '–'}{hour.gustKph !== undefined ? `/${Math.round(hour.gustKph)}` : ''} km/h
+                </p>
+              )}
+              {hour.precipPct !== undefined && <p className="text-blue-600 dark:text-blue-400">💧 {Math.round(hour.precipPct)}%</p>}
+              {hour.thunderPct !== undefined && hour.thunderPct > 0 && (
+                <p className={hour.thunderPct >= 30 ? 'font-bold text-red-600 dark:text-red-400' : 'text-stone-500'}>⚡ {Math.round(hour.thunderPct)}%</p>
+              )}
+              {hour.uvIndex !== undefined && <p className="text-stone-400">UV {Math.round(hour.uvIndex)}</p>}
+              {km !== null && <p className="mt-1 font-semibold text-forest-700 dark:text-forest-300">km {km.toFixed(1)}</p>}
+            </div>
+          );
+        })}
+      </div>
+      <p className="text-[10px] text-stone-400">
+        Outlined hours are on the trail (km = where you'll be as the hour starts). Wind shown as sustained/gusts.
+        Tinted hours trip a weather rule; hover for why. Forecast from {SOURCE_LABEL[forecast.source] || forecast.source}.
+      </p>
+    </div>
+  );
+};
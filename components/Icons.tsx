@@ -222,4 +222,9 @@ export const IconCompass = ({ className }: { className?: string }) => (
     <path strokeLinecap="round" strokeLinejoin="round" d="M12 3a9 9 0 1 0 0 18 9 9 0 0 0 0-18Z" />
     <path strokeLinecap="round" strokeLinejoin="round" d="m15.196 8.804-5.992 2.996 2.996 5.992 5.992-2.996-2.996-5.992Z" />
   </svg>
-);
\ No newline at end of file
+);
+export const IconDroplet = ({ className }: { className?: string }) => (
+  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="M12 2.25c-3 4.5-6.75 8.25-6.75 12a6.75 6.75 0 0 0 13.5 0c0-3.75-3.75-7.5-6.75-12Z" />
+  </svg>
+);
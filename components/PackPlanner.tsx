@@ -0,0 +1,200 @@
+import React, { useState, useEffect } from 'react';
+import { GearCategory, GearItem, PackWeights } from '../types';
+import {
+  GEAR_CATEGORIES, loadGearCloset, saveGearCloset, loadPackList, savePackList, newGearId, packWeights, suggestPackList, guessGearCategory,
+} from '../utils/gearCloset';
+
+interface PackPlannerProps {
+  tripKey: string; // Which trip's pack list to show (see packListKey)
+  gearList: string[]; // The report's packing list, for suggestions
+  onChange: (weights: PackWeights | null) => void; // Null when nothing is packed for this trip
+}
+
+const EMPTY_DRAFT = { name: '', weightG: '', category: 'other' as GearCategory, worn: false, consumable: false };
+
+export const PackPlanner: React.FC<PackPlannerProps> = ({ tripKey, gearList, onChange }) => {
+  const [closet, setCloset] = useState<GearItem[]>(loadGearCloset);
+  const [packed, setPacked] = useState<string[]>(() => loadPackList(tripKey) || []);
+  const [missing, setMissing] = useState<string[]>([]);
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+
+  useEffect(() => {
+    setPacked(loadPackList(tripKey) || []);
+    setMissing([]);
+  }, [tripKey]);
+
+  useEffect(() => {
+    const weights = packWeights(closet, packed);
+    onChange(weights.itemCount > 0 ? weights : null);
+  }, [closet, packed]);
+
+  const updateCloset = (items: GearItem[]) => {
+    setCloset(items);
+    saveGearCloset(items);
+  };
+
+  const updatePacked = (ids: string[]) => {
+    setPacked(ids);
+    savePackList(tripKey, ids.length > 0 ? ids : null);
+  };
+
+  const togglePacked = (id: string) => {
+    updatePacked(packed.includes(id) ? packed.filter(p => p !== id) : [...packed, id]);
+  };
+
+  const handleSuggest = () => {
+    const suggestion = suggestPackList(closet, gearList);
+    updatePacked([...new Set([...packed, ...suggestion.itemIds])]);
+    setMissing(suggestion.missing);
+  };
+
+  const handleRemove = (id: string) => {
+    updateCloset(closet.filter(item => item.id !== id));
+    updatePacked(packed.filter(p => p !== id));
+  };
+
+  const handleAdd = () => {
+    const weightG = parseInt(draft.weightG, 10);
+    if (!draft.name.trim() || !(weightG > 0)) return;
+    const item: GearItem = {
+      id: newGearId(),
+      name: draft.name.trim(),
+      weightG,
+      category: draft.category,
+      worn: draft.worn || undefined,
+      consumable: draft.consumable || undefined,
+    };
+    updateCloset([...closet, item]);
+    updatePacked([...packed, item.id]);
+    setMissing(missing.filter(entry => entry !== draft.name));
+    setDraft(EMPTY_DRAFT);
+  };
+
+  // Prefill the form from a report item the closet doesn't have yet
+  const startFrom = (entry: string) => {
+    const guess = guessGearCategory(entry);
+    setDraft({ name: entry, weightG: '', category: guess.category, worn: !!guess.worn, consumable: !!guess.consumable });
+  };
+
+  const weights = packWeights(closet, packed);
+  const byCategory = GEAR_CATEGORIES
+    .map(category => ({ category, items: closet.filter(item => item.category === category) }))
+    .filter(group => group.items.length > 0);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-bold text-forest-600 dark:text-forest-400 uppercase">Your Pack for This Trip</span>
+        {gearList.length > 0 && closet.length > 0 && (
+          <button onClick={handleSuggest} className="text-[10px] uppercase font-bold text-stone-500 hover:text-forest-600 transition-colors">
+            Suggest from report
+          </button>
+        )}
+      </div>
+
+      {weights.itemCount > 0 && (
+        <div className="grid grid-cols-4 gap-2 text-center">
+          {[
+            { label: 'Base', value: weights.baseKg },
+            { label: 'Consumable', value: weights.consumableKg },
+            { label: 'Carried', value: weights.carriedKg },
+            { label: 'Worn', value: weights.wornKg },
+          ].map(({ label, value }) => (
+            <div key={label} className="bg-stone-50 dark:bg-stone-900 rounded-lg p-2 border border-stone-100 dark:border-stone-700">
+              <span className="block text-[9px] uppercase font-bold text-stone-400">{label}</span>
+              <span className="text-sm font-bold text-stone-800 dark:text-stone-200">{value} kg</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {closet.length === 0 ? (
+        <p className="text-xs text-stone-500 dark:text-stone-400 italic">
+          Add your own gear with real weights and the pack weight, UL score and gear risk will use it instead of the estimate.
+        </p>
+      ) : (
+        <div className="space-y-2 max-h-64 overflow-y-auto pr-1">
+          {byCategory.map(({ category, items }) => (
+            <div key={category}>
+              <span className="text-[9px] uppercase font-bold text-stone-400">{category}</span>
+              <ul className="space-y-1">
+                {items.map(item => (
+                  <li key={item.id} className="flex items-center gap-2 text-xs text-stone-700 dark:text-stone-300">
+                    <input
+                      type="checkbox"
+                      checked={packed.includes(item.id)}
+                      onChange={() => togglePacked(item.id)}
+                      className="accent-forest-600"
+                    />
+                    <span className="flex-1">{item.name}</span>
+                    {item.worn && <span className="text-[9px] uppercase font-bold text-blue-600 dark:text-blue-400">worn</span>}
+                    {item.consumable && <span className="text-[9px] uppercase font-bold text-amber-600 dark:text-amber-400">consumable</span>}
+                    <span className="font-mono text-stone-500">{item.weightG} g</span>
+                    <button onClick={() => handleRemove(item.id)} className="text-stone-400 hover:text-red-500" title="Remove from closet">×</button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {missing.length > 0 && (
+        <div>
+          <span className="text-[9px] uppercase font-bold text-stone-400 block mb-1">On the report's list, not in your closet</span>
+          <div className="flex flex-wrap gap-1">
+            {missing.map(entry => (
+              <button
+                key={entry}
+                onClick={() => startFrom(entry)}
+                className="text-[10px] px-2 py-0.5 rounded-full bg-stone-100 dark:bg-stone-700 text-stone-600 dark:text-stone-300 hover:bg-forest-100 dark:hover:bg-forest-900"
+              >
+                + {entry}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Add to closet */}
+      <div className="grid grid-cols-6 gap-2 items-center">
+        <input
+          value={draft.name}
+          onChange={e => setDraft({ ...draft, name: e.target.value })}
+          placeholder="Item"
+          className="col-span-3 text-xs px-2 py-1 rounded border border-stone-200 dark:border-stone-600 bg-white dark:bg-stone-800"
+        />
+        <input
+          type="number"
+          min={1}
+          value={draft.weightG}
+          onChange={e => setDraft({ ...draft, weightG: e.target.value })}
+          placeholder="g"
+          className="col-span-1 text-xs px-2 py-1 rounded border border-stone-200 dark:border-stone-600 bg-white dark:bg-stone-800"
+        />
+        <select
+          value={draft.category}
+          onChange={e => setDraft({ ...draft, category: e.target.value as GearCategory })}
+          className="col-span-2 text-xs px-2 py-1 rounded border border-stone-200 dark:border-stone-600 bg-white dark:bg-stone-800"
+        >
+          {GEAR_CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+        </select>
+        <label className="col-span-2 flex items-center gap-1 text-[10px] text-stone-500">
+          <input type="checkbox" checked={draft.worn} onChange={e => setDraft({ ...draft, worn: e.target.checked })} className="accent-forest-600" />
+          Worn
+        </label>
+        <label className="col-span-2 flex items-center gap-1 text-[10px] text-stone-500">
+          <input type="checkbox" checked={draft.consumable} onChange={e => setDraft({ ...draft, consumable: e.target.checked })} className="accent-forest-600" />
+          Consumable
+        </label>
+        <button
+          onClick={handleAdd}
+          disabled={!draft.name.trim() || !(parseInt(draft.weightG, 10) > 0)}
+          className="col-span-2 text-xs font-bold px-2 py-1 rounded bg-forest-600 text-white hover:bg-forest-700 disabled:opacity-40"
+        >
+          Add
+        </button>
+      </div>
+    </div>
+  );
+};
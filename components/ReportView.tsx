@@ -1,9 +1,32 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import ReactMarkdown from 'react-markdown';
-import { TripReport, RiskAnalysis, SaferAlternative, HistoryItem, TripData, WarningChip, HikeDetails, UserProfile } from '../types';
-import { IconLink, IconSearch, IconShield, IconCheck, IconWarning, IconStop, IconSend, IconInfo, IconRefresh, IconHistory, IconTime, IconSettings, IconScale, IconChart, IconCloud, IconWeight, IconStar, IconShare, IconList, IconMap, IconFirstAid, IconBot } from './Icons';
-import { calculateTurnaroundTime, estimatePackWeight, calculateULScore, calculateRiskAnalysis, generateWarnings } from '../utils/riskUtils';
+import { TripReport, RiskAnalysis, TimeBand, RouteTrack, SaferAlternative, HistoryItem, TripData, TripDataField, WarningChip, HikeDetails, UserProfile, StreamingTripReport, ServiceError, PackWeights } from '../types';
+import { IconLink, IconSearch, IconShield, IconCheck, IconWarning, IconStop, IconSend, IconInfo, IconRefresh, IconHistory, IconTime, IconSettings, IconScale, IconChart, IconCloud, IconWeight, IconStar, IconShare, IconList, IconMap, IconFirstAid, IconBot, IconDroplet } from './Icons';
+import { estimatePackWeight, calculateULScore, calculateRiskAnalysis, generateWarnings, evaluateWeatherByHour } from '../utils/riskUtils';
 import { CollapsiblePanel } from './CollapsiblePanel';
+import { DataValue } from './DataValue';
+import { StreamingReport } from './StreamingReport';
+import { ServiceErrorNotice } from './ServiceErrorNotice';
+import { isDefaulted, isUnverified, withProvenance } from '../utils/provenance';
+import { buildPacePlan, toMinutes } from '../utils/pace';
+import { applyLevers, findRiskScenarios, RiskScenario } from '../utils/sensitivity';
+import { findHikingWindows } from '../utils/hikeWindows';
+import { simulateTrip } from '../utils/simulation';
+import { formatAge } from '../services/cache';
+import { withCitationMarkers, fieldSources } from '../services/grounding';
+import { CitationMark, SourceList } from './Citations';
+import { ElevationChart } from './ElevationChart';
+import { HourlyForecast } from './HourlyForecast';
+import { PackPlanner } from './PackPlanner';
+import { hoursBetween, shiftForecastTemps } from '../utils/weather';
+import { assessThermalStress } from '../utils/thermalStress';
+import { altitudeAdvice, assessAltitude } from '../utils/altitude';
+import { assessRemoteness } from '../utils/remoteness';
+import { assessStormExposure } from '../utils/stormExposure';
+import { packListKey, packULScore } from '../utils/gearCloset';
+import { describeSupplies, planSupplies, supplyGear } from '../utils/supplies';
+import { buildPlanGpx, gpxFileName } from '../utils/gpxExport';
+import { loadEmergencyContact, summarizeEmergencyContact } from '../utils/emergencyContact';
 
 interface ReportViewProps {
   report: TripReport | null;
@@ -22,6 +45,16 @@ interface ReportViewProps {
   onFollowUp?: (question: string) => void;
   historyItem?: HistoryItem | null;
   onReRunHistory?: () => void;
+  streamingReport?: StreamingTripReport | null;
+  onCancelGeneration?: () => void;
+  onRefreshConditions?: () => void;
+  error?: ServiceError | null; // Last report request failed
+  onRetry?: () => void;
+  safetyCheckError?: ServiceError | null;
+  alternativesError?: ServiceError | null;
+  onPickWindow?: (date: string, startTime: string) => void; // Re-plan the hike for an optimizer window
+  route?: RouteTrack | null; // Imported track, for the full-resolution elevation chart
+  onPackWeightChange?: (packWeightKg?: number) => void; // Carried weight of the trip's pack list, undefined when there is none
 }
 
 const ReportView: React.FC<ReportViewProps> = ({ 
@@ -40,14 +73,26 @@ const ReportView: React.FC<ReportViewProps> = ({
   userProfile,
   onFollowUp,
   historyItem,
-  onReRunHistory
+  onReRunHistory,
+  streamingReport,
+  onCancelGeneration,
+  onRefreshConditions,
+  error,
+  onRetry,
+  safetyCheckError,
+  alternativesError,
+  onPickWindow,
+  route,
+  onPackWeightChange
 }) => {
   const [showRiskDetails, setShowRiskDetails] = useState(false);
   const [showWhatIf, setShowWhatIf] = useState(false);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
   
   // Gear Dropdown states
   const [showFullGearList, setShowFullGearList] = useState(false);
   const [showGearReason, setShowGearReason] = useState(false);
+  const [pack, setPack] = useState<PackWeights | null>(null); // The user's packed list, when they've built one
   
   // Local state for "What If" mode
   const [whatIfData, setWhatIfData] = useState<TripData | null>(null);
@@ -88,34 +133,69 @@ const ReportView: React.FC<ReportViewProps> = ({
   useEffect(() => {
     if (!report?.data || !whatIfData) return;
     
-    const hypoData: TripData = {
+    let conditions: TripData = {
       ...whatIfData,
       tempC: report.data.tempC + tempAdjust,
-      distanceKm: Math.max(1, report.data.distanceKm + distAdjust),
-      weatherCondition: weatherOverride || report.data.weatherCondition
+      weatherCondition: weatherOverride || report.data.weatherCondition,
+      // The hourly forecast moves with the temperature slider; a picked weather scenario replaces it
+      forecast: weatherOverride ? undefined : shiftForecastTemps(report.data.forecast, tempAdjust),
     };
+    // A picked weather scenario is a known input, even if the report's weather wasn't
+    if (weatherOverride) {
+      conditions = withProvenance(conditions, 'weatherCondition', { source: 'user', confidence: 'high' });
+    }
 
-    const baseHour = 9; 
-    const newHour = Math.min(23, Math.max(0, baseHour + timeAdjust));
-    const hypoStartTime = `${newHour.toString().padStart(2, '0')}:00`;
-
-    const estimatedBase = estimatePackWeight(hypoData);
-    const hypoWeight = Math.max(1, estimatedBase + weightAdjust);
-
-    const hypoUser = {
-        ...userProfile,
-        fitness: (fitnessOverride || userProfile.fitness) as 'low' | 'medium' | 'high'
-    };
+    // Same lever mapping the risk scenarios use, so applying one reproduces its score
+    const { user: hypoUser, data: hypoData, startTime: hypoStartTime, packWeight: hypoWeight } = applyLevers(userProfile, conditions, hikeDetails.startTime, {
+      startShiftHours: timeAdjust,
+      distanceDeltaKm: distAdjust,
+      packWeightDeltaKg: weightAdjust,
+      fitness: (fitnessOverride || userProfile.fitness) as UserProfile['fitness'],
+    }, pack?.carriedKg);
 
     const newRisk = calculateRiskAnalysis(hypoUser, hypoData, hypoStartTime, hypoWeight);
-    const newWarnings = generateWarnings(hypoData, hypoStartTime);
-    const newScore = calculateULScore(hypoWeight, hypoData);
+    const newWarnings = generateWarnings(hypoUser, hypoData, hypoStartTime);
+    const newScore = pack
+      ? packULScore({ ...pack, baseKg: Math.max(0, pack.baseKg + weightAdjust) })
+      : calculateULScore(hypoWeight, hypoData);
 
     setWhatIfRisk(newRisk);
     setWhatIfWarnings(newWarnings);
     setWhatIfULScore(newScore);
 
-  }, [tempAdjust, distAdjust, timeAdjust, weatherOverride, weightAdjust, fitnessOverride, report, userProfile, whatIfData]);
+  }, [tempAdjust, distAdjust, timeAdjust, weatherOverride, weightAdjust, fitnessOverride, report, userProfile, whatIfData, hikeDetails.startTime, pack]);
+
+  // Smallest lever changes that reach each lower risk level, from the report's own conditions
+  const riskScenarios = useMemo(
+    () => (report?.data ? findRiskScenarios(userProfile, report.data, hikeDetails.startTime, pack?.carriedKg) : []),
+    [report, userProfile, hikeDetails.startTime, pack?.carriedKg]
+  );
+
+  // Finish-time and risk-level spread for the plan as it stands
+  const simulation = useMemo(
+    () => (report?.data ? simulateTrip(userProfile, report.data, hikeDetails.startTime, pack?.carriedKg) : null),
+    [report, userProfile, hikeDetails.startTime, pack?.carriedKg]
+  );
+
+  // Safest start on the chosen date and the next few days
+  const hikingWindows = useMemo(
+    () => (report?.data && hikeDetails.date ? findHikingWindows(userProfile, report.data, hikeDetails.date, pack?.carriedKg) : []),
+    [report, userProfile, hikeDetails.date, pack?.carriedKg]
+  );
+
+  const handlePackChange = (weights: PackWeights | null) => {
+    setPack(weights);
+    onPackWeightChange?.(weights?.carriedKg);
+  };
+
+  const applyScenario = (scenario: RiskScenario) => {
+    setTempAdjust(0);
+    setWeatherOverride('');
+    setTimeAdjust(scenario.levers.startShiftHours);
+    setDistAdjust(scenario.levers.distanceDeltaKm);
+    setWeightAdjust(scenario.levers.packWeightDeltaKg);
+    setFitnessOverride(scenario.levers.fitness === userProfile.fitness ? '' : scenario.levers.fitness);
+  };
 
   const Tooltip = ({ text }: { text: string }) => (
     isBeginner ? (
@@ -129,6 +209,11 @@ const ReportView: React.FC<ReportViewProps> = ({
     ) : null
   );
 
+  // Streaming: fill in sections as they arrive
+  if (isLoading && !report && streamingReport) {
+    return <StreamingReport report={streamingReport} loadingText={loadingText} onCancel={onCancelGeneration} />;
+  }
+
   // Initial Full Page Loading (Only if no report exists yet)
   if (isLoading && !report) {
     return (
@@ -142,37 +227,84 @@ const ReportView: React.FC<ReportViewProps> = ({
     );
   }
 
-  if (!report) return null;
+  if (!report) {
+    return error ? <ServiceErrorNotice error={error} title="Couldn't build your trip report" onRetry={onRetry} /> : null;
+  }
 
   const effectiveData = report.data; 
-  const packWeight = estimatePackWeight(effectiveData);
-  const ulScore = calculateULScore(packWeight, effectiveData);
-  const turnaround = calculateTurnaroundTime(effectiveData, hikeDetails.startTime, userProfile.fitness); 
-  const warnings = generateWarnings(effectiveData, hikeDetails.startTime); 
+  const pace = buildPacePlan(effectiveData, hikeDetails.startTime, userProfile.fitness);
+  const trailHours = hoursBetween(effectiveData.forecast, toMinutes(hikeDetails.startTime), toMinutes(hikeDetails.startTime) + pace.totalMinutes);
+  // Real pack when the user has packed their own gear, otherwise estimated with water and food from the supply plan
+  const roughPackWeight = pack ? pack.carriedKg : estimatePackWeight(effectiveData);
+  const thermal = assessThermalStress(effectiveData, trailHours, roughPackWeight);
+  const supplies = planSupplies(effectiveData, userProfile, pace, thermal, trailHours, roughPackWeight);
+  const packWeight = pack ? pack.carriedKg : estimatePackWeight(effectiveData, supplies);
+  const ulScore = pack ? packULScore(pack) : calculateULScore(packWeight, effectiveData);
+  const warnings = generateWarnings(userProfile, effectiveData, hikeDetails.startTime); 
+  const stormExposure = assessStormExposure(effectiveData, pace, hikeDetails.startTime);
+  const altitude = assessAltitude(effectiveData, userProfile, pace);
+  const remoteness = assessRemoteness(effectiveData, pace);
+  const altitudeTips = altitudeAdvice(altitude);
+  const supplyTips = supplyGear(supplies);
 
   const calculateTimeline = () => {
-    const startParts = hikeDetails.startTime.split(':').map(Number);
-    const startDate = new Date();
-    startDate.setHours(startParts[0], startParts[1], 0);
-
-    const turnaroundParts = turnaround.split(':').map(Number);
-    const turnaroundDate = new Date();
-    turnaroundDate.setHours(turnaroundParts[0], turnaroundParts[1], 0);
-    if (turnaroundDate < startDate) turnaroundDate.setDate(turnaroundDate.getDate() + 1);
+    const toDate = (time: string, after?: Date) => {
+      const [h, m] = time.split(':').map(Number);
+      const d = new Date();
+      d.setHours(h, m, 0);
+      if (after && d < after) d.setDate(d.getDate() + 1);
+      return d;
+    };
 
-    const halfDurationMs = turnaroundDate.getTime() - startDate.getTime();
-    const endDate = new Date(startDate.getTime() + halfDurationMs * 2);
+    // Same pace plan the risk engine compares against sunset
+    const startDate = toDate(hikeDetails.startTime);
+    const turnaroundDate = toDate(pace.turnaround, startDate);
+    const endDate = toDate(pace.finish, turnaroundDate);
 
     const formatTime = (d: Date) => d.toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'});
+    // Exposed stretches and the storm deadline, on the same clock
+    const exposed = stormExposure.windows.map(w => ({ ...w, enterDate: toDate(w.enter, startDate), leaveDate: toDate(w.leave, startDate) }));
+    const offSummitDate = stormExposure.offSummitBy ? toDate(stormExposure.offSummitBy, startDate) : null;
+
+    const formatBand = (band: TimeBand | null) => band && {
+      p10: formatTime(toDate(band.p10, startDate)),
+      p50: formatTime(toDate(band.p50, startDate)),
+      p90: formatTime(toDate(band.p90, startDate)),
+    };
 
     return {
       start: formatTime(startDate),
       turnaround: formatTime(turnaroundDate),
-      end: formatTime(endDate)
+      end: formatTime(endDate),
+      turnaroundBand: formatBand(simulation?.turnaround ?? null),
+      finishBand: formatBand(simulation?.finish ?? null),
+      segments: pace.segments.map(seg => ({ ...seg, eta: formatTime(toDate(seg.eta, startDate)) })),
+      exposed: exposed.map(w => ({ ...w, enter: formatTime(w.enterDate), leave: formatTime(w.leaveDate) })),
+      offSummitBy: offSummitDate && formatTime(offSummitDate),
+      // Still on exposed ground when the storms are due
+      offSummitLate: !!offSummitDate && exposed.some(w => w.leaveDate > offSummitDate),
     };
   };
 
   const timeline = calculateTimeline();
+  const formatDuration = (minutes: number) => `${Math.floor(minutes / 60)}h ${Math.round(minutes % 60)}m`;
+  const formatPercent = (p: number) => `${Math.round(p * 100)}%`;
+  const finishText = timeline.finishBand ? `${timeline.finishBand.p50} (90% by ${timeline.finishBand.p90})` : timeline.end;
+  const afterSunsetText = simulation?.pAfterSunset !== undefined ? `\n• Chance of finishing after sunset: ${formatPercent(simulation.pAfterSunset)}` : '';
+
+  // Share-card suffix so recipients don't take placeholders as fact
+  const unverifiedMark = (field: TripDataField) => isUnverified(effectiveData, field) ? ' (unverified)' : '';
+
+  // Share-card line for the thermal-stress numbers, e.g. "heat index 33°C at 14:00 (high heat risk), wind chill 12°C at 06:00 • moderate effort"
+  const thermalText = () => {
+    if (!thermal) return '';
+    const at = (time?: string) => (time ? ` at ${time}` : '');
+    const parts = [
+      thermal.heatIndexC !== undefined && `heat index ${Math.round(thermal.heatIndexC)}°C${at(thermal.heatIndexTime)}${thermal.heat !== 'none' ? ` (${thermal.heat} heat risk)` : ''}`,
+      thermal.windChillC !== undefined && `wind chill ${Math.round(thermal.windChillC)}°C${at(thermal.windChillTime)}${thermal.cold !== 'none' ? ` (${thermal.cold} cold risk)` : ''}`,
+    ].filter(Boolean);
+    return `\n• Feels like: ${parts.join(', ')} • ${thermal.exertion} effort${thermal.wet ? ', expect to get wet' : ''}`;
+  };
 
   const generateShareCard = (format: 'minimal' | 'full' | 'detailed') => {
     const header = `TrailSense Hike Plan — ${hikeDetails.trailName}`;
@@ -186,9 +318,9 @@ const ReportView: React.FC<ReportViewProps> = ({
     if (format === 'minimal') {
       return `\n${header}\n${date}\n🚶 ${report.summary.stats}\n⚠ Risk: ${report.summary.riskFactor}\n${safety}\n${verdict}\n${footer}`;
     } else if (format === 'full') {
-        return `\n${header}\n${date} • ${hikeDetails.location}\n\n📊 Quick Stats\n• ${report.summary.stats}\n• Start: ${hikeDetails.startTime}\n• Turnaround: ${timeline.turnaround}\n• Sunset: ${effectiveData.sunsetTime || '--:--'}\n\n${safety}\n⚠ Top Risk: ${report.summary.riskFactor}\n${verdict}\n\n${highlights}\n\n🌦 Weather Snapshot\n• ${effectiveData.tempC}°C, ${effectiveData.weatherCondition}\n• Rain/Precip: check forecast\n\n🥾 Packing Essentials\n• Water, Nav, Light, First Aid, Layers\n• Recommended: ${report.ulGear}\n\n${footer}`;
+        return `\n${header}\n${date} • ${hikeDetails.location}\n\n📊 Quick Stats\n• ${report.summary.stats}\n• Start: ${hikeDetails.startTime}\n• Turnaround: ${timeline.turnaround} (km ${pace.turnaroundKm.toFixed(1)})\n• Finish: ${finishText}\n• Sunset: ${effectiveData.sunsetTime || '--:--'}${unverifiedMark('sunsetTime')}\n\n${safety}\n⚠ Top Risk: ${report.summary.riskFactor}\n${verdict}\n\n${highlights}\n\n🌦 Weather Snapshot\n• ${effectiveData.tempC}°C${unverifiedMark('tempC')}, ${effectiveData.weatherCondition}${unverifiedMark('weatherCondition')}\n• Rain/Precip: check forecast\n\n🥾 Packing Essentials\n• Water, Nav, Light, First Aid, Layers\n• Recommended: ${report.ulGear}${supplies ? `\n• Water & food: ${describeSupplies(supplies)}` : ''}\n\n${footer}`;
     } else {
-        return `\n${header}\n${date} • ${hikeDetails.location}\n\nSAFETY ANALYSIS\n${safety}\n• Main Risk: ${report.summary.riskFactor}\n• Verdict: ${report.summary.verdict}\n• Good to know: ${report.safety.pros.slice(0,2).join(', ')}\n• Watch out for: ${report.safety.cons.slice(0,3).join(', ')}\n\nROUTE & TIMING\n• ${report.summary.stats}\n• Difficulty: ${report.summary.difficulty}\n• Start: ${hikeDetails.startTime}\n• Turnaround Target: ${timeline.turnaround} (Strict)\n• Est. Finish: ${timeline.end}\n• Sunset: ${effectiveData.sunsetTime}\n• ${highlights}\n\nCONDITIONS\n• Weather: ${effectiveData.tempC}°C, ${effectiveData.weatherCondition}\n• Pack Weight Est: ~${packWeight}kg (UL Score: ${ulScore})\n\nGEAR CHECKLIST\n• 10 Essentials (Nav, Sun, Light, First Aid, Knife, Fire, Shelter, Food, Water, Clothes)\n• Special Item: ${report.ulGear}\n• Why? ${report.gearReason || 'Standard safety precaution.'}\n\n${footer}`;
+        return `\n${header}\n${date} • ${hikeDetails.location}\n\nSAFETY ANALYSIS\n${safety}\n• Main Risk: ${report.summary.riskFactor}\n• Verdict: ${report.summary.verdict}\n• Good to know: ${report.safety.pros.slice(0,2).join(', ')}\n• Watch out for: ${report.safety.cons.slice(0,3).join(', ')}\n\nROUTE & TIMING\n• ${report.summary.stats}\n• Difficulty: ${report.summary.difficulty}\n• Start: ${hikeDetails.startTime}\n• Turnaround Target: ${timeline.turnaround} at km ${pace.turnaroundKm.toFixed(1)} (Strict)\n• Return Leg: ${formatDuration(pace.returnMinutes)}\n• Est. Finish: ${finishText}\n• Sunset: ${effectiveData.sunsetTime || '--:--'}${unverifiedMark('sunsetTime')}${afterSunsetText}\n• ${highlights}\n\nCONDITIONS\n• Weather: ${effectiveData.tempC}°C${unverifiedMark('tempC')}, ${effectiveData.weatherCondition}${unverifiedMark('weatherCondition')}${thermalText()}\n• ${pack ? `Pack Weight: ${packWeight}kg carried, ${pack.baseKg}kg base` : `Pack Weight Est: ~${packWeight}kg`} (UL Score: ${ulScore})\n\nGEAR CHECKLIST\n• 10 Essentials (Nav, Sun, Light, First Aid, Knife, Fire, Shelter, Food, Water, Clothes)\n• Special Item: ${report.ulGear}\n• Why? ${report.gearReason || 'Standard safety precaution.'}${supplies ? `\n• Water & Food: ${describeSupplies(supplies)}` : ''}\n\n${footer}`;
     }
   };
 
@@ -203,6 +335,30 @@ const ReportView: React.FC<ReportViewProps> = ({
     setShareText(generateShareCard(fmt));
   };
 
+  // Planned route with trailhead/turnaround/finish waypoints, for a phone or GPS unit
+  const exportTrack = effectiveData.routeStats ? route : null;
+  const canExportGpx = !!(exportTrack || effectiveData.trailhead);
+
+  const handleExportGpx = () => {
+    const gpx = buildPlanGpx({
+      trailName: hikeDetails.trailName,
+      date: hikeDetails.date,
+      startTime: hikeDetails.startTime,
+      data: effectiveData,
+      pace,
+      summary: report.summary,
+      track: exportTrack,
+      emergency: summarizeEmergencyContact(loadEmergencyContact()),
+    });
+    if (!gpx) return;
+    const url = URL.createObjectURL(new Blob([gpx], { type: 'application/gpx+xml' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = gpxFileName(hikeDetails.trailName, hikeDetails.date);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   const handleCopy = () => {
     navigator.clipboard.writeText(shareText);
     setCopied(true);
@@ -232,6 +388,31 @@ const ReportView: React.FC<ReportViewProps> = ({
         </div>
       )}
 
+      {/* Follow-up failed: the plan below is the previous one */}
+      {error && (
+        <ServiceErrorNotice error={error} title="Couldn't update your plan" />
+      )}
+
+      {/* Cached Report Banner */}
+      {!historyItem && report.fromCache && report.generatedAt && (
+        <div className="bg-stone-100 dark:bg-stone-700 p-3 rounded-xl border border-stone-200 dark:border-stone-600 flex items-center justify-between animate-fade-in mb-4">
+             <div className="flex items-center gap-2">
+                 <IconTime className="w-4 h-4 text-stone-500 dark:text-stone-400" />
+                 <span className="text-sm font-semibold text-stone-600 dark:text-stone-300">
+                     Conditions saved {formatAge(report.generatedAt)}
+                 </span>
+             </div>
+             {onRefreshConditions && (
+                 <button 
+                   onClick={onRefreshConditions}
+                   className="text-xs bg-forest-600 text-white px-3 py-1.5 rounded-lg hover:bg-forest-700 transition-colors flex items-center gap-1 shadow-sm"
+                 >
+                     <IconRefresh className="w-3 h-3" /> Refresh Conditions
+                 </button>
+             )}
+        </div>
+      )}
+
       {/* WARNINGS OVERLAY */}
       {warnings.length > 0 && (
          <div className="flex flex-wrap gap-2 mb-2 animate-fade-in">
@@ -247,6 +428,47 @@ const ReportView: React.FC<ReportViewProps> = ({
          </div>
       )}
 
+      {/* Data Check: fields the model left out or got wrong */}
+      {report.diagnostics && report.diagnostics.length > 0 && (
+        <div className="bg-amber-50 dark:bg-amber-900/20 p-3 rounded-xl border border-amber-200 dark:border-amber-800 animate-fade-in">
+            <button
+              onClick={() => setShowDiagnostics(!showDiagnostics)}
+              className="w-full flex items-center justify-between text-sm font-semibold text-amber-800 dark:text-amber-200"
+            >
+                <span className="flex items-center gap-2">
+                    <IconWarning className="w-4 h-4" />
+                    Some trail data couldn't be verified ({report.diagnostics.length})
+                </span>
+                <span className={`text-xs transition-transform ${showDiagnostics ? 'rotate-180' : ''}`}>▼</span>
+            </button>
+            {showDiagnostics && (
+              <ul className="mt-2 space-y-1 pl-6">
+                  {report.diagnostics.map((d, i) => (
+                      <li key={i} className="text-xs text-amber-900 dark:text-amber-100">
+                          <span className="font-mono font-semibold">{d.field}</span>: {d.message}
+                      </li>
+                  ))}
+              </ul>
+            )}
+        </div>
+      )}
+
+      {/* Data Disagreement: sources for the same fact that can't all be right */}
+      {effectiveData.disagreements && effectiveData.disagreements.length > 0 && (
+        <div className="bg-orange-50 dark:bg-orange-900/20 p-3 rounded-xl border border-orange-200 dark:border-orange-800 animate-fade-in">
+            <div className="flex items-center gap-2 text-sm font-semibold text-orange-800 dark:text-orange-200">
+                <IconWarning className="w-4 h-4" />
+                Data disagreement: double-check these before you rely on the plan
+            </div>
+            <ul className="mt-2 space-y-1 pl-6 list-disc">
+                {effectiveData.disagreements.map((d, i) => (
+                    <li key={i} className="text-xs text-orange-900 dark:text-orange-100">{d.message}</li>
+                ))}
+            </ul>
+            <p className="mt-2 pl-6 text-[10px] text-orange-700 dark:text-orange-300">Counted as uncertainty in the safety level.</p>
+        </div>
+      )}
+
       {/* 1. At a Glance Summary Card */}
       <CollapsiblePanel 
         title="Trail Summary" 
@@ -271,14 +493,68 @@ const ReportView: React.FC<ReportViewProps> = ({
                         <div className="absolute -left-[17px] top-1 w-2.5 h-2.5 rounded-full bg-amber-500 border-2 border-white dark:border-stone-800"></div>
                         <p className="text-[10px] uppercase font-bold text-stone-400 leading-none">Turnaround</p>
                         <p className="text-xs font-mono font-semibold text-stone-700 dark:text-stone-300">{timeline.turnaround}</p>
+                        {timeline.turnaroundBand && (
+                          <p className="text-[10px] text-stone-400">likely there {timeline.turnaroundBand.p50}, {timeline.turnaroundBand.p90} on a slow day</p>
+                        )}
+                        <p className="text-[10px] text-stone-400">km {pace.turnaroundKm.toFixed(1)} • return leg {formatDuration(pace.returnMinutes)}</p>
                     </div>
+                    {timeline.exposed.length > 0 && (
+                      <div className="relative">
+                          <div className={`absolute -left-[17px] top-1 w-2.5 h-2.5 rounded-full border-2 border-white dark:border-stone-800 ${timeline.offSummitLate ? 'bg-red-500' : 'bg-blue-500'}`}></div>
+                          <p className="text-[10px] uppercase font-bold text-stone-400 leading-none">
+                            {timeline.offSummitBy ? 'Off the summit by' : 'Exposed ground'}
+                            <Tooltip text="Above treeline or close to the high point, with nowhere to shelter from lightning. Afternoon storms are most dangerous here." />
+                          </p>
+                          {timeline.offSummitBy && (
+                            <p className={`text-xs font-mono font-semibold ${timeline.offSummitLate ? 'text-red-600 dark:text-red-400' : 'text-stone-700 dark:text-stone-300'}`}>
+                              {timeline.offSummitBy}
+                              {stormExposure.offSummitBasis === 'rule-of-thumb' && <span className="font-sans font-normal text-stone-400"> (rule of thumb)</span>}
+                            </p>
+                          )}
+                          {timeline.exposed.map((w, i) => (
+                            <p key={i} className="text-[10px] text-stone-400">
+                              {w.reason === 'treeline' ? 'above treeline' : 'near the summit'} {w.enter}–{w.leave} • km {w.fromKm.toFixed(1)}–{w.toKm.toFixed(1)}
+                            </p>
+                          ))}
+                          {timeline.offSummitLate && (
+                            <p className="text-[10px] font-semibold text-red-600 dark:text-red-400">Start earlier or turn back before the high ground</p>
+                          )}
+                      </div>
+                    )}
                     <div className="relative">
                         <div className="absolute -left-[17px] top-1 w-2.5 h-2.5 rounded-full bg-stone-400 border-2 border-white dark:border-stone-800"></div>
                         <p className="text-[10px] uppercase font-bold text-stone-400 leading-none">Finish</p>
-                        <p className="text-xs font-mono font-semibold text-stone-700 dark:text-stone-300">{timeline.end}</p>
+                        {timeline.finishBand ? (
+                          <>
+                            <p className="text-xs font-mono font-semibold text-stone-700 dark:text-stone-300">{timeline.finishBand.p50}</p>
+                            <p className="text-[10px] text-stone-400">80% between {timeline.finishBand.p10} and {timeline.finishBand.p90}</p>
+                          </>
+                        ) : (
+                          <p className="text-xs font-mono font-semibold text-stone-700 dark:text-stone-300">{timeline.end}</p>
+                        )}
+                        {simulation?.pAfterSunset !== undefined && simulation.pAfterSunset > 0 && (
+                          <p className={`text-[10px] font-semibold ${simulation.pAfterDark && simulation.pAfterDark >= 0.1 ? 'text-red-600 dark:text-red-400' : 'text-amber-600 dark:text-amber-400'}`}>
+                            {formatPercent(simulation.pAfterSunset)} chance after sunset
+                            {simulation.pAfterDark ? `, ${formatPercent(simulation.pAfterDark)} after dark` : ''}
+                          </p>
+                        )}
                     </div>
                 </div>
 
+                {/* Segment ETAs */}
+                <details className="mt-3 text-[10px] text-stone-500 dark:text-stone-400">
+                    <summary className="cursor-pointer font-bold uppercase tracking-wider hover:text-stone-700 dark:hover:text-stone-200">Segment ETAs</summary>
+                    <ul className="mt-1.5 space-y-0.5 font-mono">
+                        {timeline.segments.map((seg, i) => (
+                            <li key={i} className="flex justify-between gap-2">
+                                <span>km {seg.toKm.toFixed(1)}</span>
+                                <span className="text-stone-400">{seg.ascentM > 0 ? `+${Math.round(seg.ascentM)}m` : seg.descentM > 0 ? `-${Math.round(seg.descentM)}m` : 'flat'}</span>
+                                <span className="font-semibold text-stone-700 dark:text-stone-300">{seg.eta}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </details>
+
             </div>
             <div>
                 <span className="text-xs text-stone-500 dark:text-stone-400 uppercase tracking-wider font-semibold block mb-1">
@@ -286,6 +562,51 @@ const ReportView: React.FC<ReportViewProps> = ({
                   <Tooltip text="Distance is round-trip length. Gain is total vertical climbing." />
                 </span>
                 <span className="text-lg font-bold text-stone-800 dark:text-stone-200 block">{report.summary.stats}</span>
+                <dl className="mt-3 grid grid-cols-2 gap-x-2 gap-y-1 text-xs">
+                    <dt className="text-stone-400">Distance</dt>
+                    <dd className="font-mono text-stone-700 dark:text-stone-300"><DataValue data={effectiveData} field="distanceKm" sources={fieldSources(report.citations, 'distanceKm')}>{effectiveData.distanceKm} km</DataValue></dd>
+                    <dt className="text-stone-400">Gain</dt>
+                    <dd className="font-mono text-stone-700 dark:text-stone-300"><DataValue data={effectiveData} field="elevationM" sources={fieldSources(report.citations, 'elevationM')}>{effectiveData.elevationM} m</DataValue></dd>
+                    <dt className="text-stone-400">Temp</dt>
+                    <dd className="font-mono text-stone-700 dark:text-stone-300"><DataValue data={effectiveData} field="tempC" sources={fieldSources(report.citations, 'tempC')}>{effectiveData.tempC}°C</DataValue></dd>
+                    <dt className="text-stone-400">Weather</dt>
+                    <dd className="text-stone-700 dark:text-stone-300"><DataValue data={effectiveData} field="weatherCondition" sources={fieldSources(report.citations, 'weatherCondition')}>{effectiveData.weatherCondition}</DataValue></dd>
+                    {effectiveData.routeStats?.maxAltitudeM !== undefined && (
+                      <>
+                        <dt className="text-stone-400">Loss</dt>
+                        <dd className="font-mono text-stone-700 dark:text-stone-300">{effectiveData.routeStats.lossM} m</dd>
+                        <dt className="text-stone-400">Altitude</dt>
+                        <dd className="font-mono text-stone-700 dark:text-stone-300">{effectiveData.routeStats.minAltitudeM}–{effectiveData.routeStats.maxAltitudeM} m</dd>
+                      </>
+                    )}
+                    {remoteness && (
+                      <>
+                        <dt className="text-stone-400">From road</dt>
+                        <dd className="font-mono text-stone-700 dark:text-stone-300">
+                          {remoteness.kmSource === 'reported' ? (
+                            <DataValue data={effectiveData} field="remoteness" sources={fieldSources(report.citations, 'remoteness')}>{remoteness.kmFromRoad} km</DataValue>
+                          ) : `${remoteness.kmFromRoad.toFixed(1)} km`}
+                          {' '}• {remoteness.hoursFromRoad.toFixed(1)} h
+                        </dd>
+                        {(remoteness.cellCoverage || remoteness.footTraffic) && (
+                          <>
+                            <dt className="text-stone-400">Signal / people</dt>
+                            <dd className="text-stone-700 dark:text-stone-300">
+                              <DataValue data={effectiveData} field="remoteness" sources={fieldSources(report.citations, 'remoteness')}>
+                                {remoteness.cellCoverage || '?'} / {remoteness.footTraffic || '?'}
+                              </DataValue>
+                            </dd>
+                          </>
+                        )}
+                      </>
+                    )}
+                </dl>
+                {remoteness?.recommendPlb && (
+                  <p className="mt-2 text-[10px] font-semibold text-amber-700 dark:text-amber-300">Carry a personal locator beacon: calling for help is hard from out here.</p>
+                )}
+                {effectiveData.routeStats && (
+                  <p className="mt-2 text-[10px] text-forest-600 dark:text-forest-400 font-semibold">Measured from your imported track</p>
+                )}
             </div>
             {/* Highlights Section */}
             <div>
@@ -314,13 +635,47 @@ const ReportView: React.FC<ReportViewProps> = ({
                 <span className="text-lg font-bold text-stone-800 dark:text-stone-200">{report.summary.riskFactor}</span>
                 {effectiveData.sunsetTime && (
                   <div className="mt-4 flex items-center gap-2 text-xs text-stone-500 dark:text-stone-400">
-                    <div className="w-2 h-2 bg-orange-400 rounded-full"></div> Sunset today: <span className="font-mono">{effectiveData.sunsetTime}</span>
+                    <div className="w-2 h-2 bg-orange-400 rounded-full"></div> Sunset today: <DataValue data={effectiveData} field="sunsetTime" className="font-mono" sources={fieldSources(report.citations, 'sunsetTime')}>{effectiveData.sunsetTime}</DataValue>
+                  </div>
+                )}
+                {effectiveData.solar && (
+                  <div className="mt-1.5 grid grid-cols-2 gap-x-3 gap-y-0.5 text-[11px] text-stone-500 dark:text-stone-400">
+                    <span>Sunrise <span className="font-mono">{effectiveData.solar.sunrise || '--:--'}</span></span>
+                    <span>Daylight <span className="font-mono">{Math.floor(effectiveData.solar.daylightMinutes / 60)}h {effectiveData.solar.daylightMinutes % 60}m</span></span>
+                    <span>Civil dusk <span className="font-mono">{effectiveData.solar.civilDusk || '--:--'}</span></span>
+                    <span>Nautical dusk <span className="font-mono">{effectiveData.solar.nauticalDusk || '--:--'}</span></span>
+                    <span className="col-span-2">Moon: {effectiveData.solar.moon.name} ({Math.round(effectiveData.solar.moon.illumination * 100)}% lit)</span>
                   </div>
                 )}
             </div>
         </div>
       </CollapsiblePanel>
 
+      {/* Elevation Profile */}
+      {effectiveData.distanceKm > 0 && (
+        <CollapsiblePanel
+          title="Elevation Profile"
+          icon={<IconChart className="w-4 h-4 text-forest-600" />}
+        >
+          <ElevationChart data={effectiveData} pace={pace} startTime={hikeDetails.startTime} track={effectiveData.routeStats ? route : null} />
+        </CollapsiblePanel>
+      )}
+
+      {/* Hour by Hour */}
+      {effectiveData.forecast && (
+        <CollapsiblePanel
+          title="Hour by Hour"
+          icon={<IconCloud className="w-4 h-4 text-blue-500" />}
+        >
+          <HourlyForecast
+            forecast={effectiveData.forecast}
+            hourlyRisk={evaluateWeatherByHour(userProfile, effectiveData, hikeDetails.startTime)}
+            pace={pace}
+            startTime={hikeDetails.startTime}
+          />
+        </CollapsiblePanel>
+      )}
+
       {/* Safety Level Bar */}
       {riskAnalysis && (
         <div className="bg-white dark:bg-stone-800 rounded-2xl shadow-sm border border-stone-200 dark:border-stone-700 p-4">
@@ -345,6 +700,15 @@ const ReportView: React.FC<ReportViewProps> = ({
                 style={{ width: `${(riskAnalysis.score / 10) * 100}%` }}
               ></div>
            </div>
+           {simulation && (
+             <p className="mt-1.5 text-[10px] text-stone-400">
+               Across {simulation.riskSamples} simulated days:{' '}
+               {(Object.entries(simulation.levelProbabilities) as [string, number][])
+                 .filter(([, p]) => p > 0)
+                 .map(([level, p]) => `${level} ${formatPercent(p)}`)
+                 .join(' • ')}
+             </p>
+           )}
 
            {showRiskDetails && (
              <div className="mt-4 p-4 bg-stone-50 dark:bg-stone-900 rounded-xl border border-stone-200 dark:border-stone-700 animate-fade-in">
@@ -359,11 +723,64 @@ const ReportView: React.FC<ReportViewProps> = ({
                    </li>
                  ))}
                </ul>
+               {riskAnalysis.ruleSetVersion && (
+                 <p className="mt-3 text-[10px] text-stone-400">Scored with risk rules v{riskAnalysis.ruleSetVersion}</p>
+               )}
              </div>
            )}
         </div>
       )}
 
+      {/* Best Time to Go */}
+      {hikingWindows.length > 0 && (
+        <CollapsiblePanel
+          title="Best Time to Go"
+          icon={<IconTime className="w-4 h-4" />}
+          defaultExpanded={false}
+        >
+          <ol className="space-y-2">
+            {hikingWindows.map((w, i) => {
+              const isCurrent = w.date === hikeDetails.date && w.startTime === hikeDetails.startTime;
+              return (
+                <li key={`${w.date}-${w.startTime}`} className="flex flex-wrap items-center gap-3 p-3 rounded-lg border border-stone-200 dark:border-stone-700 bg-stone-50 dark:bg-stone-900">
+                  <span className="font-mono text-xs font-bold text-stone-400 w-4">{i + 1}</span>
+                  <div className="flex-1 min-w-[10rem]">
+                    <p className="text-sm font-bold text-stone-800 dark:text-stone-200">
+                      {new Date(`${w.date}T00:00:00`).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' })} • {w.startTime}
+                    </p>
+                    <p className="text-[11px] text-stone-500 dark:text-stone-400">
+                      Finish {w.finish}
+                      {w.minutesBeforeSunset !== undefined && (
+                        w.minutesBeforeSunset >= 0
+                          ? ` • ${Math.floor(w.minutesBeforeSunset / 60)}h ${w.minutesBeforeSunset % 60}m before sunset (${w.sunset})`
+                          : ` • ${-w.minutesBeforeSunset}m after sunset (${w.sunset})`
+                      )}
+                      {w.heatExposureMinutes > 0 && ` • ${w.heatExposureMinutes}m in midday heat`}
+                      {w.stormExposureMinutes > 0 && ` • ${w.stormExposureMinutes}m in storm hours`}
+                    </p>
+                    {!w.forecastChecked && (
+                      <p className="text-[10px] text-amber-600 dark:text-amber-400">Forecast not checked for this date</p>
+                    )}
+                  </div>
+                  <span className={`text-xs font-bold px-2 py-0.5 rounded ${w.risk.color.replace('bg-', 'text-').replace('500', '700').replace('600', '800').replace('400', '800')}`}>
+                    {w.risk.level}
+                  </span>
+                  {onPickWindow && (
+                    <button
+                      onClick={() => onPickWindow(w.date, w.startTime)}
+                      disabled={isCurrent}
+                      className="text-xs font-bold px-3 py-1.5 rounded-lg bg-forest-600 text-white hover:bg-forest-700 disabled:bg-stone-300 dark:disabled:bg-stone-700 disabled:cursor-default transition-colors"
+                    >
+                      {isCurrent ? 'Current plan' : 'Use this window'}
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        </CollapsiblePanel>
+      )}
+
       {/* "What If" Exploration Mode */}
       <CollapsiblePanel 
         title="Explore: What If Mode" 
@@ -399,6 +816,31 @@ const ReportView: React.FC<ReportViewProps> = ({
                </div>
              )}
 
+             {/* SCENARIOS */}
+             {riskScenarios.length > 0 && (
+               <div className="mb-6">
+                 <span className="text-[10px] uppercase font-bold text-stone-400 block mb-2">What would lower the risk?</span>
+                 <div className="flex flex-col sm:flex-row gap-2">
+                   {riskScenarios.map(scenario => (
+                     <button
+                       key={scenario.targetLevel}
+                       onClick={() => applyScenario(scenario)}
+                       className="flex-1 text-left p-3 rounded-lg border border-stone-200 dark:border-stone-600 bg-white dark:bg-stone-700 hover:border-forest-400 dark:hover:border-forest-500 transition-colors"
+                     >
+                       <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded ${scenario.analysis.color.replace('bg-', 'text-').replace('500', '700').replace('600', '800').replace('400', '800')}`}>
+                         Reach {scenario.targetLevel}
+                       </span>
+                       <ul className="mt-1.5 space-y-0.5">
+                         {scenario.changes.map((change, i) => (
+                           <li key={i} className="text-xs text-stone-600 dark:text-stone-300">{change}</li>
+                         ))}
+                       </ul>
+                     </button>
+                   ))}
+                 </div>
+               </div>
+             )}
+
              {/* CONTROLS */}
              <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-6">
                 
@@ -523,11 +965,15 @@ const ReportView: React.FC<ReportViewProps> = ({
               h2: ({node, ...props}) => <h2 className="text-xl mt-8 mb-4 border-b border-stone-100 dark:border-stone-700 pb-2" {...props} />,
               ul: ({node, ...props}) => <ul className="space-y-2 my-4 list-disc pl-5 marker:text-forest-400" {...props} />,
               li: ({node, ...props}) => <li className="pl-1" {...props} />,
+              a: ({node, href, ...props}) => href?.startsWith('#source-')
+                ? <CitationMark n={Number(href.slice('#source-'.length))} />
+                : <a href={href} target="_blank" rel="noopener noreferrer" {...props} />,
             }}
            >
-             {report.markdownContent}
+             {withCitationMarkers(report.markdownContent, report.citations)}
            </ReactMarkdown>
         </article>
+        <SourceList sources={report.sources} />
       </div>
 
       {/* 3. Safety Check Panel */}
@@ -579,6 +1025,34 @@ const ReportView: React.FC<ReportViewProps> = ({
             </div>
         </div>
 
+        {/* Altitude: how high, how fast, and what to do about it */}
+        {altitude && altitude.grade !== 'none' && (
+            <div className="mt-6 pt-4 border-t border-stone-100 dark:border-stone-700">
+                <h4 className="text-xs font-bold text-stone-500 dark:text-stone-400 uppercase tracking-wider flex items-center gap-1">
+                    <IconChart className="w-4 h-4 text-blue-600 dark:text-blue-400" /> Altitude
+                    <span className={`ml-2 px-2 py-0.5 rounded-full text-[10px] ${
+                      altitude.grade === 'high' ? 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-200' :
+                      altitude.grade === 'moderate' ? 'bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-200' :
+                      'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-200'
+                    }`}>{altitude.grade} AMS risk</span>
+                </h4>
+                <p className="mt-2 text-sm text-stone-700 dark:text-stone-300">
+                    High point <DataValue data={effectiveData} field="highPointM" sources={fieldSources(report.citations, 'highPointM')}>{altitude.highPointM} m</DataValue>
+                    {altitude.trailheadM !== undefined && <>, from a trailhead at <DataValue data={effectiveData} field="trailheadAltitudeM" sources={fieldSources(report.citations, 'trailheadAltitudeM')}>{altitude.trailheadM} m</DataValue></>}
+                    {altitude.ascentRateMPerH !== undefined && <> • climbing ~{Math.round(altitude.ascentRateMPerH / 10) * 10} m/h{altitude.fastAscent ? ' (fast)' : ''}</>}
+                    {' '}• {altitude.acclimatized ? 'acclimatized' : 'not acclimatized'}
+                </p>
+                <ul className="mt-2 space-y-1 text-sm text-stone-700 dark:text-stone-300">
+                    {altitudeTips.tips.map((tip, i) => (
+                        <li key={i} className="flex items-start gap-2">
+                            <span className="block w-1.5 h-1.5 bg-blue-500 rounded-full mt-1.5 flex-shrink-0"></span>
+                            {tip}
+                        </li>
+                    ))}
+                </ul>
+            </div>
+        )}
+
         {/* Alternatives Button - Show if risk is Elevated or High */}
         {riskAnalysis && (riskAnalysis.level === 'Elevated' || riskAnalysis.level === 'High') && !alternatives && (
             <div className="mt-6 pt-4 border-t border-amber-100 dark:border-amber-900/30">
@@ -596,6 +1070,11 @@ const ReportView: React.FC<ReportViewProps> = ({
                      </>
                    )}
                  </button>
+                 {alternativesError && !isLoadingAlternatives && (
+                   <div className="mt-3">
+                     <ServiceErrorNotice error={alternativesError} title="Couldn't find alternatives" compact />
+                   </div>
+                 )}
             </div>
         )}
 
@@ -617,6 +1096,12 @@ const ReportView: React.FC<ReportViewProps> = ({
             </div>
         )}
 
+        {safetyCheckError && !isThinking && (
+            <div className="mt-4">
+                <ServiceErrorNotice error={safetyCheckError} title="Deep safety check failed" compact />
+            </div>
+        )}
+
         {/* Deep Check Button Area */}
         <div className="mt-4 flex flex-col md:flex-row items-center justify-between gap-4 pt-4 border-t border-stone-100 dark:border-stone-700">
              <p className="text-xs text-amber-800 dark:text-amber-200 md:max-w-md">
@@ -652,8 +1137,8 @@ const ReportView: React.FC<ReportViewProps> = ({
             {/* Weight Bar */}
             <div>
             <div className="flex justify-between text-xs font-semibold mb-1 text-stone-500 dark:text-stone-400">
-                <span>Estimated Pack Weight</span>
-                <span>~{packWeight} kg</span>
+                <span>{pack ? 'Your Pack (Carried)' : 'Estimated Pack Weight'}</span>
+                <span>{pack ? '' : '~'}{packWeight} kg</span>
             </div>
             <div className="h-4 bg-stone-100 dark:bg-stone-700 rounded-full overflow-hidden relative">
                 {/* Danger Zone Markers */}
@@ -666,9 +1151,17 @@ const ReportView: React.FC<ReportViewProps> = ({
                     style={{ width: `${Math.min(100, (packWeight / 12) * 100)}%` }}
                 ></div>
             </div>
-            <p className="text-[10px] text-stone-400 mt-1 italic">Includes water, food & layers based on distance/weather.</p>
+            <p className="text-[10px] text-stone-400 mt-1 italic">
+                {pack
+                  ? `Base ${pack.baseKg} kg + ${pack.consumableKg} kg food/water/fuel from ${pack.itemCount} packed items; worn gear not counted.`
+                  : supplies
+                    ? `Includes ${supplies.startCarryL} L water and ${Math.round(supplies.foodKg * 1000)} g food from the water & food plan, plus layers for the weather.`
+                    : 'Includes water, food & layers based on distance/weather.'}
+            </p>
             </div>
 
+            <PackPlanner tripKey={packListKey(hikeDetails)} gearList={[...(report.gearList || []), ...supplyTips]} onChange={handlePackChange} />
+
             {/* Score & Gear */}
             <div>
                 <div className="flex items-center justify-between mb-2">
@@ -708,14 +1201,28 @@ const ReportView: React.FC<ReportViewProps> = ({
                                 {showFullGearList ? 'Hide Full List' : 'Full Packing List'}
                                 <span className={`transition-transform ${showFullGearList ? 'rotate-180' : ''}`}>▼</span>
                             </button>
-                            {showFullGearList && report.gearList && report.gearList.length > 0 && (
+                            {showFullGearList && ((report.gearList && report.gearList.length > 0) || altitudeTips.gear.length > 0 || supplyTips.length > 0) && (
                                 <ul className="mt-1 space-y-1 animate-fade-in pl-2 border-l-2 border-forest-200">
-                                    {report.gearList.map((item, idx) => (
+                                    {(report.gearList || []).map((item, idx) => (
                                         <li key={idx} className="text-xs text-stone-600 dark:text-stone-400 flex items-start gap-1.5">
                                             <span className="mt-1 w-1 h-1 bg-stone-400 rounded-full flex-shrink-0"></span>
                                             {item}
                                         </li>
                                     ))}
+                                    {altitudeTips.gear.map((item, idx) => (
+                                        <li key={`altitude-${idx}`} className="text-xs text-stone-600 dark:text-stone-400 flex items-start gap-1.5">
+                                            <span className="mt-1 w-1 h-1 bg-blue-500 rounded-full flex-shrink-0"></span>
+                                            {item}
+                                            <span className="text-[9px] uppercase font-bold text-blue-600 dark:text-blue-400">altitude</span>
+                                        </li>
+                                    ))}
+                                    {supplyTips.map((item, idx) => (
+                                        <li key={`supplies-${idx}`} className="text-xs text-stone-600 dark:text-stone-400 flex items-start gap-1.5">
+                                            <span className="mt-1 w-1 h-1 bg-forest-500 rounded-full flex-shrink-0"></span>
+                                            {item}
+                                            <span className="text-[9px] uppercase font-bold text-forest-600 dark:text-forest-400">water & food</span>
+                                        </li>
+                                    ))}
                                 </ul>
                             )}
                         </div>
@@ -729,14 +1236,83 @@ const ReportView: React.FC<ReportViewProps> = ({
         </div>
       </CollapsiblePanel>
 
-      {/* Share Plan Button (Moved from sidebar to bottom here as well if needed, but it's in sidebar now) */}
-      <button 
-        onClick={handleOpenShare}
-        className="w-full py-3 bg-white dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl text-sm font-bold text-stone-700 dark:text-stone-200 hover:bg-stone-50 dark:hover:bg-stone-700 transition-colors flex items-center justify-center gap-2 shadow-sm"
+      {/* WATER & FOOD */}
+      {supplies && (
+        <CollapsiblePanel
+          title="Water & Food Plan"
+          icon={<IconDroplet className="w-5 h-5 text-forest-600" />}
         >
-        <IconShare className="w-4 h-4" />
-        Share Plan
-        </button>
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-2 text-center">
+              {[
+                { label: 'Drink', value: `${supplies.waterL} L`, note: `~${supplies.sweatLPerHour.toFixed(2)} L/h` },
+                { label: 'Burn', value: `${supplies.kcalBurned.toLocaleString()} kcal`, note: `${formatDuration(Math.round(supplies.hours * 60))} on trail` },
+                { label: 'Eat', value: `${supplies.foodKcal.toLocaleString()} kcal`, note: `~${Math.round(supplies.foodKg * 1000)} g trail food` },
+              ].map(({ label, value, note }) => (
+                <div key={label} className="bg-stone-50 dark:bg-stone-900 rounded-lg p-2 border border-stone-100 dark:border-stone-700">
+                  <span className="block text-[9px] uppercase font-bold text-stone-400">{label}</span>
+                  <span className="block text-sm font-bold text-stone-800 dark:text-stone-200">{value}</span>
+                  <span className="text-[10px] text-stone-500">{note}</span>
+                </div>
+              ))}
+            </div>
+
+            {/* Carry vs refill */}
+            <div>
+              <span className="text-[10px] font-bold text-forest-600 dark:text-forest-400 uppercase block mb-1">Carry & Refill</span>
+              <ol className="space-y-1">
+                {supplies.legs.map((leg, idx) => (
+                  <li key={idx} className="text-xs text-stone-700 dark:text-stone-300 flex justify-between gap-2">
+                    <span>
+                      {leg.refillAt ? (
+                        <>Refill at <DataValue data={effectiveData} field="waterSources" sources={fieldSources(report.citations, 'waterSources')}>{leg.refillAt}</DataValue></>
+                      ) : 'Leave the trailhead with'}
+                      <span className="text-stone-400"> · km {leg.fromKm.toFixed(1)}–{leg.toKm.toFixed(1)}, {formatDuration(Math.round(leg.minutes))}</span>
+                    </span>
+                    <span className="font-mono font-bold">{leg.carryL} L</span>
+                  </li>
+                ))}
+              </ol>
+              {supplies.legs.length === 1 && (
+                <p className="text-[10px] text-stone-500 dark:text-stone-400 mt-1">
+                  {effectiveData.waterSources ? 'No reliable water on the route: carry it all from the start.' : "We couldn't find water sources for this route, so the plan assumes none."}
+                </p>
+              )}
+              {supplies.backupSources.length > 0 && (
+                <p className="text-[10px] text-stone-500 dark:text-stone-400 mt-1">
+                  Don't count on: {supplies.backupSources.map(s => `${s.name} (km ${s.km.toFixed(1)}, ${s.reliability})`).join(', ')}
+                </p>
+              )}
+            </div>
+
+            <p className="text-[10px] text-stone-400 italic">
+              From the pace plan, {isDefaulted(effectiveData, 'elevationM') ? 'no climbing (gain unknown)' : `${effectiveData.elevationM} m of climbing`}
+              {thermal ? `, ${thermal.exertion} effort` : ''} and {supplies.bodyWeightAssumed ? 'an assumed 70 kg body weight (add yours in the profile)' : `${supplies.bodyWeightKg} kg body weight`}.
+              Carry amounts include a 0.5 L reserve per stretch.
+            </p>
+          </div>
+        </CollapsiblePanel>
+      )}
+
+      {/* Share Plan Button (Moved from sidebar to bottom here as well if needed, but it's in sidebar now) */}
+      <div className="grid grid-cols-2 gap-3">
+        <button 
+          onClick={handleOpenShare}
+          className="w-full py-3 bg-white dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl text-sm font-bold text-stone-700 dark:text-stone-200 hover:bg-stone-50 dark:hover:bg-stone-700 transition-colors flex items-center justify-center gap-2 shadow-sm"
+          >
+          <IconShare className="w-4 h-4" />
+          Share Plan
+          </button>
+        <button
+          onClick={handleExportGpx}
+          disabled={!canExportGpx}
+          title={canExportGpx ? 'Download the route with trailhead, turnaround and finish waypoints' : 'No trailhead location or imported track to export'}
+          className="w-full py-3 bg-white dark:bg-stone-800 border border-stone-200 dark:border-stone-700 rounded-xl text-sm font-bold text-stone-700 dark:text-stone-200 hover:bg-stone-50 dark:hover:bg-stone-700 transition-colors flex items-center justify-center gap-2 shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+          <IconMap className="w-4 h-4" />
+          Export GPX
+          </button>
+      </div>
 
       {/* Share Modal */}
       {showShareModal && (
@@ -0,0 +1,39 @@
+import React from 'react';
+import { ServiceError, ServiceErrorKind } from '../types';
+import { IconWarning, IconRefresh } from './Icons';
+
+interface ServiceErrorNoticeProps {
+  error: ServiceError;
+  title?: string;
+  onRetry?: () => void;
+  compact?: boolean; // Sidebar-sized
+}
+
+const TITLES: Record<ServiceErrorKind, string> = {
+  network: 'Connection problem',
+  quota: 'Service busy',
+  safetyBlock: 'Request declined',
+  parse: 'Unreadable response',
+  timeout: 'Request timed out',
+};
+
+// Shown wherever an AI call failed, in place of the content it would have produced
+export const ServiceErrorNotice: React.FC<ServiceErrorNoticeProps> = ({ error, title, onRetry, compact = false }) => (
+  <div className={`bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl animate-fade-in ${compact ? 'p-3' : 'p-4'}`}>
+    <div className="flex items-start gap-2">
+      <IconWarning className={`${compact ? 'w-4 h-4' : 'w-5 h-5'} text-red-600 dark:text-red-400 flex-shrink-0 mt-0.5`} />
+      <div className="flex-1">
+        <div className={`font-bold text-red-800 dark:text-red-200 ${compact ? 'text-xs' : 'text-sm'}`}>{title || TITLES[error.kind]}</div>
+        <p className={`text-red-700 dark:text-red-300 mt-0.5 ${compact ? 'text-[10px]' : 'text-xs'}`}>{error.message}</p>
+      </div>
+      {onRetry && (
+        <button
+          onClick={onRetry}
+          className="text-xs font-bold px-3 py-1.5 rounded-lg border border-red-200 dark:border-red-700 text-red-700 dark:text-red-200 hover:bg-red-100 dark:hover:bg-red-900/40 transition-colors flex items-center gap-1 flex-shrink-0"
+        >
+          <IconRefresh className="w-3 h-3" /> Try again
+        </button>
+      )}
+    </div>
+  </div>
+);
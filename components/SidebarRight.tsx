@@ -1,8 +1,10 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { HistoryItem, HikeDetails, UserProfile, RecommendedTrail, ChatMessage } from '../types';
+import { HistoryItem, HikeDetails, UserProfile, RecommendedTrail, ChatMessage, ServiceError } from '../types';
 import { IconHistory, IconTrash, IconBot, IconSend, IconSparkles, IconMap, IconFileText, IconChevronRight } from './Icons';
 import { getTrailTips, getRecommendedTrails, generateTripReport } from '../services/gemini';
 import { CollapsiblePanel } from './CollapsiblePanel';
+import { ServiceErrorNotice } from './ServiceErrorNotice';
+import { createRequestCoordinator } from '../services/requestCoordinator';
 
 interface SidebarRightProps {
   history: HistoryItem[];
@@ -14,6 +16,7 @@ interface SidebarRightProps {
   // Chat props
   onFollowUp: (question: string) => void;
   isThinking: boolean;
+  followUpError?: ServiceError | null;
   onOpenEmergencySheet: () => void;
 }
 
@@ -26,6 +29,7 @@ export const SidebarRight: React.FC<SidebarRightProps> = ({
   userProfile,
   onFollowUp,
   isThinking,
+  followUpError,
   onOpenEmergencySheet
 }) => {
   // Chat State
@@ -37,30 +41,56 @@ export const SidebarRight: React.FC<SidebarRightProps> = ({
 
   // Async Data State
   const [tips, setTips] = useState<string[]>([]);
+  const [tipsError, setTipsError] = useState<ServiceError | null>(null);
   const [loadingTips, setLoadingTips] = useState(false);
   const [recs, setRecs] = useState<RecommendedTrail[]>([]);
+  const [recsError, setRecsError] = useState<ServiceError | null>(null);
   const [loadingRecs, setLoadingRecs] = useState(false);
+  const [requests] = useState(createRequestCoordinator);
+
+  const hikeKey = `${hikeDetails.trailName}|${hikeDetails.location}`;
+
+  const loadTips = () => {
+    setLoadingTips(true);
+    setTipsError(null);
+    requests.run('tips', `${hikeKey}|${userProfile.experience}|${userProfile.fitness}`, signal => getTrailTips(userProfile, hikeDetails, signal)).then(t => {
+      if (!t) return; // Superseded by a newer hike
+      if (t.ok) setTips(t.value);
+      else {
+        setTips([]);
+        setTipsError(t.error);
+      }
+      setLoadingTips(false);
+    });
+  };
+
+  const loadRecs = () => {
+    setLoadingRecs(true);
+    setRecsError(null);
+    requests.run('recs', hikeKey, signal => getRecommendedTrails(hikeDetails, signal)).then(r => {
+      if (!r) return; // Superseded by a newer hike
+      if (r.ok) setRecs(r.value);
+      else {
+        setRecs([]);
+        setRecsError(r.error);
+      }
+      setLoadingRecs(false);
+    });
+  };
 
   // Load async content when hike details change (and valid)
   useEffect(() => {
     if (hikeDetails.trailName && hikeDetails.location) {
-      setLoadingTips(true);
-      getTrailTips(userProfile, hikeDetails).then(t => {
-        setTips(t);
-        setLoadingTips(false);
-      });
-
-      setLoadingRecs(true);
-      getRecommendedTrails(hikeDetails).then(r => {
-        setRecs(r);
-        setLoadingRecs(false);
-      });
+      loadTips();
+      loadRecs();
       
       // Reset chat on new hike
       setChatHistory([{ role: 'model', text: "I've analyzed the trail conditions. Need to adjust anything?" }]);
     }
   }, [hikeDetails.trailName, hikeDetails.location]);
 
+  useEffect(() => () => requests.cancelAll(), []);
+
   // Scroll chat
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -82,7 +112,10 @@ export const SidebarRight: React.FC<SidebarRightProps> = ({
   const prevThinking = useRef(isThinking);
   useEffect(() => {
       if (prevThinking.current && !isThinking) {
-          setChatHistory(prev => [...prev, { role: 'model', text: "I've updated the plan based on your request." }]);
+          const reply = followUpError
+            ? `I couldn't update the plan. ${followUpError.message}`
+            : "I've updated the plan based on your request.";
+          setChatHistory(prev => [...prev, { role: 'model', text: reply }]);
       }
       prevThinking.current = isThinking;
   }, [isThinking]);
@@ -203,6 +236,8 @@ export const SidebarRight: React.FC<SidebarRightProps> = ({
                  <div className="h-4 bg-stone-200 dark:bg-stone-700 rounded w-1/2"></div>
                  <div className="h-4 bg-stone-200 dark:bg-stone-700 rounded w-5/6"></div>
              </div>
+         ) : tipsError ? (
+             <ServiceErrorNotice error={tipsError} title="Couldn't load tips" onRetry={loadTips} compact />
          ) : tips.length > 0 ? (
              <ul className="space-y-2">
                  {tips.map((tip, i) => (
@@ -228,6 +263,8 @@ export const SidebarRight: React.FC<SidebarRightProps> = ({
                  <div className="h-12 bg-stone-200 dark:bg-stone-700 rounded-lg"></div>
                  <div className="h-12 bg-stone-200 dark:bg-stone-700 rounded-lg"></div>
              </div>
+          ) : recsError ? (
+              <ServiceErrorNotice error={recsError} title="Couldn't load recommendations" onRetry={loadRecs} compact />
           ) : recs.length > 0 ? (
               <div className="space-y-3">
                   {recs.map((rec, i) => (
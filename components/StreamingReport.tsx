@@ -0,0 +1,136 @@
+import React from 'react';
+import ReactMarkdown from 'react-markdown';
+import { StreamingTripReport } from '../types';
+import { IconChart, IconShield, IconCheck, IconWarning, IconStop, IconStar } from './Icons';
+import { CollapsiblePanel } from './CollapsiblePanel';
+
+interface StreamingReportProps {
+  report: StreamingTripReport;
+  loadingText?: string;
+  onCancel?: () => void;
+}
+
+const Skeleton = ({ lines = 3 }: { lines?: number }) => (
+  <div className="space-y-2 animate-pulse">
+    {Array.from({ length: lines }).map((_, i) => (
+      <div key={i} className="h-4 bg-stone-200 dark:bg-stone-700 rounded" style={{ width: `${90 - i * 15}%` }}></div>
+    ))}
+  </div>
+);
+
+const SafetyList = ({ title, items, icon, dot }: { title: string; items: string[]; icon: React.ReactNode; dot: string }) => (
+  <div className="space-y-3">
+    <h4 className="text-xs font-bold text-stone-500 dark:text-stone-400 uppercase tracking-wider flex items-center gap-1">
+      {icon} {title}
+    </h4>
+    <ul className="space-y-2 text-sm text-stone-700 dark:text-stone-300">
+      {items.map((item, i) => (
+        <li key={i} className="flex items-start gap-2">
+          <span className={`block w-1.5 h-1.5 ${dot} rounded-full mt-1.5 flex-shrink-0`}></span>
+          {item}
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+// Progressive view shown while the Trip Report streams in. Sections fill in as they arrive.
+export const StreamingReport: React.FC<StreamingReportProps> = ({ report, loadingText, onCancel }) => {
+  const steps = [
+    { label: 'Trail data', done: !!report.data },
+    { label: 'Summary', done: !!report.summary },
+    { label: 'Safety', done: !!report.safety },
+    { label: 'Full report', done: !!report.markdownContent },
+  ];
+
+  return (
+    <div className="space-y-6 animate-fade-in pb-20">
+
+      {/* Progress Bar */}
+      <div className="bg-white dark:bg-stone-800 rounded-2xl shadow-sm border border-stone-200 dark:border-stone-700 p-4 flex flex-wrap items-center gap-4 justify-between">
+        <div className="flex items-center gap-3">
+          <div className="w-5 h-5 border-2 border-forest-600 border-t-transparent rounded-full animate-spin"></div>
+          <span className="text-sm font-medium text-forest-800 dark:text-forest-200">{loadingText || "Planning your hike..."}</span>
+        </div>
+        <div className="flex items-center gap-3">
+          {steps.map(step => (
+            <span key={step.label} className={`text-[10px] uppercase font-bold flex items-center gap-1 ${step.done ? 'text-forest-600 dark:text-forest-400' : 'text-stone-400'}`}>
+              {step.done ? <IconCheck className="w-3 h-3" /> : <span className="w-2 h-2 rounded-full bg-stone-300 dark:bg-stone-600"></span>}
+              {step.label}
+            </span>
+          ))}
+          {onCancel && (
+            <button
+              onClick={onCancel}
+              className="text-xs font-bold px-3 py-1.5 rounded-lg border border-stone-200 dark:border-stone-600 text-stone-600 dark:text-stone-300 hover:bg-stone-100 dark:hover:bg-stone-700 transition-colors"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Trail Summary */}
+      <CollapsiblePanel title="Trail Summary" icon={<IconChart className="w-5 h-5 text-forest-600" />}>
+        {report.summary ? (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 animate-fade-in">
+            <div>
+              <span className="text-xs text-stone-500 dark:text-stone-400 uppercase tracking-wider font-semibold block mb-1">Difficulty</span>
+              <span className="text-lg font-bold text-stone-800 dark:text-stone-200">{report.summary.difficulty}</span>
+            </div>
+            <div>
+              <span className="text-xs text-stone-500 dark:text-stone-400 uppercase tracking-wider font-semibold block mb-1">Route Stats</span>
+              <span className="text-lg font-bold text-stone-800 dark:text-stone-200 block">{report.summary.stats}</span>
+            </div>
+            <div>
+              <span className="text-xs text-stone-500 dark:text-stone-400 uppercase tracking-wider font-semibold block mb-1">Awesome Highlights</span>
+              <ul className="space-y-1 mt-1">
+                {report.summary.highlights.map((h, i) => (
+                  <li key={i} className="flex items-start gap-1.5 text-sm font-medium text-stone-700 dark:text-stone-300">
+                    <IconStar className="w-3.5 h-3.5 text-yellow-500 mt-0.5 flex-shrink-0" />
+                    <span>{h}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <div>
+              <span className="text-xs text-stone-500 dark:text-stone-400 uppercase tracking-wider font-semibold block mb-1">Main Risk</span>
+              <span className="text-lg font-bold text-stone-800 dark:text-stone-200">{report.summary.riskFactor}</span>
+              {report.data?.sunsetTime && (
+                <div className="mt-4 flex items-center gap-2 text-xs text-stone-500 dark:text-stone-400">
+                  <div className="w-2 h-2 bg-orange-400 rounded-full"></div> Sunset today: <span className="font-mono">{report.data.sunsetTime}</span>
+                </div>
+              )}
+            </div>
+          </div>
+        ) : (
+          <Skeleton lines={3} />
+        )}
+      </CollapsiblePanel>
+
+      {/* Detailed Content (Markdown) */}
+      <div className="bg-white dark:bg-stone-800 rounded-2xl shadow-sm border border-stone-200 dark:border-stone-700 p-6 md:p-8">
+        {report.markdownContent ? (
+          <article className="prose prose-stone dark:prose-invert prose-headings:text-forest-800 dark:prose-headings:text-forest-200 prose-headings:font-bold prose-a:text-forest-600 max-w-none">
+            <ReactMarkdown>{report.markdownContent}</ReactMarkdown>
+          </article>
+        ) : (
+          <Skeleton lines={5} />
+        )}
+      </div>
+
+      {/* Safety Breakdown */}
+      <CollapsiblePanel title="Safety Breakdown" icon={<IconShield className="w-5 h-5 text-amber-600" />}>
+        {report.safety ? (
+          <div className="grid md:grid-cols-3 gap-6 animate-fade-in">
+            <SafetyList title="Looks Good" items={report.safety.pros} icon={<IconCheck className="w-4 h-4 text-green-600 dark:text-green-400" />} dot="bg-green-500" />
+            <SafetyList title="Watch Out" items={report.safety.cons} icon={<IconWarning className="w-4 h-4 text-amber-600 dark:text-amber-400" />} dot="bg-amber-500" />
+            <SafetyList title="Avoid If" items={report.safety.dealBreakers} icon={<IconStop className="w-4 h-4 text-red-600 dark:text-red-400" />} dot="bg-red-500" />
+          </div>
+        ) : (
+          <Skeleton lines={3} />
+        )}
+      </CollapsiblePanel>
+    </div>
+  );
+};
@@ -0,0 +1,149 @@
+import { HikeDetails, RemotenessData, UserProfile } from "../types";
+
+/**
+ * RESPONSE CACHE: Persists AI responses in IndexedDB so re-opening a trail doesn't trigger a new paid call.
+ * Every kind of content has its own lifetime; weather-dependent answers go stale fastest.
+ */
+export type CacheKind = 'tripReport' | 'forecast' | 'quickTip' | 'trailTips' | 'recommendedTrails';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+export const CACHE_TTL_MS: Record<CacheKind, number> = {
+  tripReport: 1 * HOUR,       // Weather and sunset for the day
+  forecast: 1 * HOUR,
+  quickTip: 1 * DAY,
+  trailTips: 7 * DAY,         // Trail character rarely changes
+  recommendedTrails: 30 * DAY,
+};
+
+const DB_NAME = 'trailsense-cache';
+const DB_VERSION = 1;
+const STORE = 'responses';
+
+interface CacheEntry<T> {
+  key: string;
+  kind: CacheKind;
+  value: T;
+  storedAt: number;
+  expiresAt: number;
+}
+
+export interface CachedValue<T> {
+  value: T;
+  storedAt: number;
+}
+
+export interface CacheKeyParts {
+  trail?: string;
+  location?: string;
+  date?: string;
+  time?: string;
+  distanceKm?: number;
+  notes?: string;
+  remoteness?: RemotenessData;
+  profile?: UserProfile;
+  isBeginner?: boolean;
+}
+
+const normalize = (s: string = '') => s.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Same trail typed with different casing/spacing hits the same entry.
+ */
+export const buildCacheKey = (kind: CacheKind, parts: CacheKeyParts): string =>
+  [
+    kind,
+    normalize(parts.trail),
+    normalize(parts.location),
+    parts.date || '',
+    parts.time || '',
+    parts.distanceKm || '',
+    normalize(parts.notes),
+    parts.remoteness ? [parts.remoteness.maxKmFromRoad ?? '', parts.remoteness.cellCoverage || '', parts.remoteness.footTraffic || ''].join('/') : '',
+    parts.profile ? `${parts.profile.experience}/${parts.profile.fitness}` : '',
+    parts.isBeginner === undefined ? '' : parts.isBeginner ? 'beginner' : 'standard',
+  ].join('|');
+
+export const tripReportCacheKey = (user: UserProfile, hike: HikeDetails, isBeginner: boolean) =>
+  buildCacheKey('tripReport', {
+    trail: hike.trailName,
+    location: hike.location,
+    date: hike.date,
+    time: hike.startTime,
+    distanceKm: hike.distanceKm,
+    notes: hike.notes,
+    remoteness: hike.remoteness,
+    profile: user,
+    isBeginner,
+  });
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') return resolve(null);
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error("Cache unavailable", request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest): Promise<T | undefined> =>
+  openDb().then(db => {
+    if (!db) return undefined;
+    return new Promise<T | undefined>(resolve => {
+      try {
+        const request = fn(db.transaction(STORE, mode).objectStore(STORE));
+        request.onsuccess = () => resolve(request.result as T);
+        request.onerror = () => {
+          console.error("Cache error", request.error);
+          resolve(undefined);
+        };
+      } catch (e) {
+        // A cache failure should never break the call it was meant to speed up
+        console.error("Cache error", e);
+        resolve(undefined);
+      }
+    });
+  });
+
+export const getCached = async <T>(key: string): Promise<CachedValue<T> | null> => {
+  const entry = await runRequest<CacheEntry<T>>('readonly', store => store.get(key));
+  if (!entry) return null;
+  if (entry.expiresAt < Date.now()) {
+    await runRequest('readwrite', store => store.delete(key));
+    return null;
+  }
+  return { value: entry.value, storedAt: entry.storedAt };
+};
+
+export const setCached = async <T>(kind: CacheKind, key: string, value: T): Promise<void> => {
+  const now = Date.now();
+  const entry: CacheEntry<T> = { key, kind, value, storedAt: now, expiresAt: now + CACHE_TTL_MS[kind] };
+  await runRequest('readwrite', store => store.put(entry));
+};
+
+export const clearCache = async (): Promise<void> => {
+  await runRequest('readwrite', store => store.clear());
+};
+
+// "just now", "12 min ago", "3 h ago", "2 days ago"
+export const formatAge = (timestamp: number, now: number = Date.now()): string => {
+  const age = Math.max(0, now - timestamp);
+  if (age < MINUTE) return 'just now';
+  if (age < HOUR) return `${Math.floor(age / MINUTE)} min ago`;
+  if (age < DAY) return `${Math.floor(age / HOUR)} h ago`;
+  const days = Math.floor(age / DAY);
+  return `${days} day${days === 1 ? '' : 's'} ago`;
+};
@@ -0,0 +1,114 @@
+import { ServiceError, ServiceErrorKind, ServiceResult } from "../types";
+
+/**
+ * Thrown inside a service call when the response arrived but can't be used (blocked, unparseable).
+ * Anything else thrown is classified by its HTTP status or error name.
+ */
+export class ServiceFailure extends Error {
+  constructor(public kind: ServiceErrorKind, message: string) {
+    super(message);
+    this.name = 'ServiceFailure';
+  }
+}
+
+const MESSAGES: Record<ServiceErrorKind, string> = {
+  network: "Couldn't reach the AI service. Check your connection and try again.",
+  quota: "The AI service is busy or out of quota right now. Give it a minute and try again.",
+  safetyBlock: "The AI service declined to answer this request. Try rewording your trail name or notes.",
+  parse: "The AI service sent back a response TrailSense couldn't read. Try again.",
+  timeout: "The AI service took too long to respond. Try again.",
+};
+
+// Transient kinds worth another attempt; the others will fail the same way again
+const RETRYABLE: ServiceErrorKind[] = ['network', 'quota', 'timeout'];
+
+const getStatus = (error: unknown): number | undefined => {
+  const status = (error as { status?: unknown })?.status;
+  return typeof status === 'number' ? status : undefined;
+};
+
+const classifyKind = (error: unknown): ServiceErrorKind => {
+  if (error instanceof ServiceFailure) return error.kind;
+  if ((error as Error)?.name === 'TimeoutError') return 'timeout';
+
+  const status = getStatus(error);
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota/i.test((error as Error)?.message || '')) return 'quota';
+  if (status === 408 || status === 504) return 'timeout';
+  if (error instanceof SyntaxError) return 'parse';
+  return 'network';
+};
+
+export const toServiceError = (error: unknown): ServiceError => {
+  const kind = classifyKind(error);
+  return { kind, message: MESSAGES[kind], retryable: RETRYABLE.includes(kind) };
+};
+
+export interface RetryOptions {
+  signal?: AbortSignal; // Cancels the whole call, including any backoff wait
+  timeoutMs?: number; // Per attempt
+  maxAttempts?: number;
+  baseDelayMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 30 * 1000;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY_MS = 800;
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal?.reason);
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * RETRY POLICY: Exponential backoff with jitter (0.8s, 1.6s, ...) for transient failures only.
+ * Each attempt gets its own timeout signal; the caller's signal aborts immediately without retrying.
+ */
+export const withRetry = async <T>(
+  attempt: (signal: AbortSignal) => Promise<T>,
+  {
+    signal,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    maxAttempts = DEFAULT_MAX_ATTEMPTS,
+    baseDelayMs = DEFAULT_BASE_DELAY_MS,
+  }: RetryOptions = {},
+): Promise<T> => {
+  for (let n = 1; ; n++) {
+    signal?.throwIfAborted();
+    const timeout = AbortSignal.timeout(timeoutMs);
+    try {
+      return await attempt(signal ? AbortSignal.any([signal, timeout]) : timeout);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      // Our own timeout surfaces as an AbortError from fetch; report it as a timeout
+      const failure = timeout.aborted ? timeout.reason : error;
+      if (n >= maxAttempts || !toServiceError(failure).retryable) throw failure;
+      const delay = baseDelayMs * 2 ** (n - 1) * (0.75 + Math.random() * 0.5);
+      await wait(delay, signal);
+    }
+  }
+};
+
+/**
+ * Runs a service call with retries and folds any failure into a ServiceResult.
+ * Cancellation is not a failure: it rejects with the abort reason so callers can drop the result.
+ */
+export const runService = async <T>(
+  label: string,
+  attempt: (signal: AbortSignal) => Promise<T>,
+  options: RetryOptions = {},
+): Promise<ServiceResult<T>> => {
+  try {
+    return { ok: true, value: await withRetry(attempt, options) };
+  } catch (error) {
+    if (options.signal?.aborted) throw error;
+    console.error(`${label}:`, error);
+    return { ok: false, error: toServiceError(error) };
+  }
+};
@@ -1,8 +1,14 @@
-import { GoogleGenAI } from "@google/genai";
-import { UserProfile, HikeDetails, GroundingSource, TripReport, TripReportSummary, SafetyAnalysis, TripData, SaferAlternative, RiskAnalysis, RecommendedTrail, EmergencyContactData } from "../types";
-
-// Initialize the client
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+import { GroundingMetadata } from "@google/genai";
+import { UserProfile, HikeDetails, TripReport, TripReportPart, SaferAlternative, RiskAnalysis, RecommendedTrail, EmergencyContactData, ServiceResult, WeatherForecast } from "../types";
+import { getProvider, ChatSession, GenerateRequest, GenerateResult } from "./providers";
+import { parseTripReport, createTripReportStreamParser, TRIP_REPORT_OUTPUT_FORMAT } from "./reportSchema";
+import { runService, ServiceFailure } from "./errors";
+import { extractSources, mapCitations } from "./grounding";
+import { applyUserInputs } from "../utils/provenance";
+import { applySolarTimes } from "../utils/solar";
+import { findDisagreements } from "../utils/consistency";
+import { fetchForecast } from "./weather";
+import { buildCacheKey, getCached, setCached, tripReportCacheKey } from "./cache";
 
 // System Instructions for the Persona
 const TRAIL_SENSE_PERSONA = `
@@ -38,145 +44,52 @@ Rules:
 - You are NOT a hiking guide in this chat; you are an app support agent.
 `;
 
+// Streamed reports and Pro thinking runs take far longer than the default per-attempt timeout
+const REPORT_TIMEOUT_MS = 120 * 1000;
+const DEEP_CHECK_TIMEOUT_MS = 180 * 1000;
+
+// A response that came back but can't be used is a failure, not an empty answer
+const requireText = (response: GenerateResult): string => {
+  if (response.blockReason) throw new ServiceFailure('safetyBlock', `Blocked: ${response.blockReason}`);
+  if (!response.text) throw new ServiceFailure('parse', 'Empty response');
+  return response.text;
+};
+
+const parseJsonList = <T>(response: GenerateResult): T[] => {
+  const parsed = JSON.parse(requireText(response));
+  if (!Array.isArray(parsed)) throw new ServiceFailure('parse', 'Expected a JSON array');
+  return parsed as T[];
+};
+
 /**
  * FAST MODEL: Gemini 2.5 Flash Lite
  * Used for quick UI validations or simple packing tips.
  */
-export const getQuickTip = async (details: HikeDetails): Promise<string> => {
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-flash-lite-latest',
-      contents: `Give me a 1-sentence quick tip for hiking ${details.trailName} in ${details.location} starting at ${details.startTime}. Be encouraging.`,
-    });
-    return response.text || "Enjoy your hike and stay safe!";
-  } catch (error) {
-    console.error("Fast API Error:", error);
-    return "Remember to hydrate!";
-  }
+export const getQuickTip = async (details: HikeDetails, signal?: AbortSignal): Promise<ServiceResult<string>> => {
+  const cacheKey = buildCacheKey('quickTip', { trail: details.trailName, location: details.location, time: details.startTime });
+  const cached = await getCached<string>(cacheKey);
+  if (cached) return { ok: true, value: cached.value };
+
+  const result = await runService("Fast API Error", async (attemptSignal) => requireText(await getProvider().generateContent({
+    task: 'quickTip',
+    model: 'gemini-flash-lite-latest',
+    contents: `Give me a 1-sentence quick tip for hiking ${details.trailName} in ${details.location} starting at ${details.startTime}. Be encouraging.`,
+    signal: attemptSignal,
+  })), { signal });
+  if (result.ok) setCached('quickTip', cacheKey, result.value);
+  return result;
 };
 
 /**
- * PARSER: Extracts structured blocks from the special markdown format
+ * PROMPT: Shared by the one-shot and streaming Trip Report calls.
  */
-const parseTripReport = (text: string, sources: GroundingSource[]): TripReport => {
-  const summaryRegex = /---SUMMARY---([\s\S]*?)---END_SUMMARY---/;
-  const safetyRegex = /---SAFETY---([\s\S]*?)---END_SAFETY---/;
-  const dataRegex = /---DATA---([\s\S]*?)---END_DATA---/;
-  const contentRegex = /---CONTENT---([\s\S]*?)---END_CONTENT---/;
-
-  const summaryMatch = text.match(summaryRegex);
-  const safetyMatch = text.match(safetyRegex);
-  const dataMatch = text.match(dataRegex);
-  const contentMatch = text.match(contentRegex);
-
-  // Default values
-  const summary: TripReportSummary = {
-    difficulty: "Moderate",
-    stats: "Distance unknown",
-    riskFactor: "Check local conditions",
-    highlights: [],
-    tips: [],
-    verdict: "Proceed with caution"
-  };
-
-  const safety: SafetyAnalysis = {
-    pros: [],
-    cons: [],
-    dealBreakers: []
-  };
-
-  const data: TripData = {
-    distanceKm: 0,
-    elevationM: 0,
-    weatherCondition: "Unknown",
-    tempC: 20,
-    sunsetTime: "18:00",
-    elevationProfile: []
-  };
-  
-  let ulGear = "Sawyer Squeeze filter & Smartwater bottle";
-  let gearList: string[] = [];
-  let gearReason = "Conditions require standard preparation.";
-
-  // Parse Summary
-  if (summaryMatch) {
-    const lines = summaryMatch[1].trim().split('\n');
-    lines.forEach(line => {
-      if (line.startsWith('Difficulty:')) summary.difficulty = line.replace('Difficulty:', '').trim();
-      if (line.startsWith('Stats:')) summary.stats = line.replace('Stats:', '').trim();
-      if (line.startsWith('Risk:')) summary.riskFactor = line.replace('Risk:', '').trim();
-      if (line.startsWith('Highlights:')) summary.highlights = line.replace('Highlights:', '').split(',').map(s => s.trim()).filter(s => s);
-      if (line.startsWith('Tips:')) summary.tips = line.replace('Tips:', '').split('|').map(s => s.trim()).filter(s => s);
-      if (line.startsWith('Verdict:')) summary.verdict = line.replace('Verdict:', '').trim();
-    });
-  }
-
-  // Parse Safety
-  if (safetyMatch) {
-    const safetyText = safetyMatch[1];
-    const prosMatch = safetyText.match(/GOOD:([\s\S]*?)(?=WATCH_OUT:|$)/);
-    const consMatch = safetyText.match(/WATCH_OUT:([\s\S]*?)(?=AVOID_IF:|$)/);
-    const avoidMatch = safetyText.match(/AVOID_IF:([\s\S]*?)$/);
-
-    const cleanList = (str: string) => str.trim().split('\n').map(s => s.replace(/^-\s*/, '').trim()).filter(s => s);
-
-    if (prosMatch) safety.pros = cleanList(prosMatch[1]);
-    if (consMatch) safety.cons = cleanList(consMatch[1]);
-    if (avoidMatch) safety.dealBreakers = cleanList(avoidMatch[1]);
-  }
-
-  // Parse Data
-  if (dataMatch) {
-    const lines = dataMatch[1].trim().split('\n');
-    lines.forEach(line => {
-      const parts = line.split(':');
-      if (parts.length === 2) {
-        const key = parts[0].trim();
-        const val = parts[1].trim();
-        if (key === 'Distance_KM') data.distanceKm = parseFloat(val) || 0;
-        if (key === 'Elevation_M') data.elevationM = parseFloat(val) || 0;
-        if (key === 'Weather_Condition') data.weatherCondition = val;
-        if (key === 'Temp_C') data.tempC = parseFloat(val) || 20;
-        if (key === 'Sunset_Time') data.sunsetTime = val;
-        if (key === 'Elevation_Profile') {
-            data.elevationProfile = val.split(',').map(n => parseInt(n.trim())).filter(n => !isNaN(n));
-        }
-        if (key === 'UL_Gear_Suggestion') ulGear = val;
-        if (key === 'Gear_List') gearList = val.split(',').map(s => s.trim()).filter(s => s);
-        if (key === 'Gear_Reason') gearReason = val;
-      }
-    });
-  }
-
-  // Content is the rest or the specific block
-  let markdownContent = contentMatch 
-    ? contentMatch[1].trim() 
-    : text.replace(summaryRegex, '')
-          .replace(safetyRegex, '')
-          .replace(dataRegex, '')
-          .trim();
-  
-  // Extra safety cleanup to remove any leaking tags
-  markdownContent = markdownContent
-    .replace(/---CONTENT---/g, '')
-    .replace(/---END_CONTENT---/g, '')
-    .trim();
-
-  return { summary, safety, markdownContent, sources, data, ulGear, gearList, gearReason };
-};
-
-/**
- * STANDARD MODEL + GROUNDING: Gemini 2.5 Flash
- * Used for the main Trip Report using Google Search and Maps.
- */
-export const generateTripReport = async (
+const buildTripReportPrompt = (
   user: UserProfile,
   hike: HikeDetails,
-  isBeginner: boolean = false,
+  isBeginner: boolean,
   followUpQuestion?: string,
   previousContext?: string,
-): Promise<TripReport> => {
-  
+): string => {
   let prompt = "";
 
   if (followUpQuestion && previousContext) {
@@ -225,92 +138,129 @@ export const generateTripReport = async (
       6. Provide a TrailSense Report.
       
       IMPORTANT:
-      For the "Elevation_Profile" data field, you MUST use Google Maps data to find the actual relative elevation change points of this specific trail. Generate a comma-separated list of 10 integers (0-100 scale) that accurately reflect the trail's shape (e.g. starts low, peaks middle, ends low).
+      For the "elevationProfile" data field, you MUST use Google Maps data to find the actual relative elevation change points of this specific trail. Generate a list of 10 integers (0-100 scale) that accurately reflect the trail's shape (e.g. starts low, peaks middle, ends low).
       
       ${isBeginner ? 'Note: Since the user is a beginner, define terms like "switchbacks" or "scree" if used.' : ''}
     `;
   }
 
-  prompt += `
-    
-    CRITICAL OUTPUT FORMAT:
-    You MUST format your response using EXACTLY the following structure blocks with the separators.
-    
-    ---DATA---
-    Distance_KM: [Number e.g. 12.5]
-    Elevation_M: [Number e.g. 800]
-    Weather_Condition: [Short string e.g. Sunny, Stormy, Rain]
-    Temp_C: [Number e.g. 24]
-    Sunset_Time: [Time 24h e.g. 18:45]
-    Elevation_Profile: [Comma separated list of 10 relative elevation integers (0-100) representing the profile shape e.g. 0,10,40,90,100,90,40,20,10,0]
-    UL_Gear_Suggestion: [Short specific real UL gear suggestion e.g. "Toaks 750ml pot"]
-    Gear_List: [Comma separated list of 5-7 essential packing items tailored for this specific hike/weather]
-    Gear_Reason: [One sentence explaining why this specific gear is needed today]
-    ---END_DATA---
-
-    ---SUMMARY---
-    Difficulty: [Easy / Moderate / Hard]
-    Stats: [Distance in km], [Elevation in m] gain
-    Risk: [Main risk factor e.g. Heat, Storms, or None]
-    Highlights: [Comma separated list of 2-3 short cool highlights e.g. Waterfall, Peak View, Wildflowers]
-    Tips: [Pipe separated list of 3 short personalized tips e.g. Bring extra water | Pacing is key | Watch for ice]
-    Verdict: [Short verdict e.g. "Good to go with care"]
-    ---END_SUMMARY---
-
-    ---SAFETY---
-    GOOD:
-    - [Positive safety factor]
-    WATCH_OUT:
-    - [Potential hazard]
-    AVOID_IF:
-    - [Condition under which to cancel]
-    ---END_SAFETY---
-
-    ---CONTENT---
-    [Full Markdown Report Here. Use H2 for headings: Conditions Overview, Route Summary, Recommended Gear, Safety Notes, Extra Tips]
-    ---END_CONTENT---
-  `;
+  return prompt + TRIP_REPORT_OUTPUT_FORMAT;
+};
 
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        systemInstruction: TRAIL_SENSE_PERSONA,
-        tools: [
-          { googleSearch: {} },
-          { googleMaps: {} }
-        ],
-      },
-    });
-
-    const text = response.text || "I couldn't generate a report right now.";
-    
-    // Extract grounding sources
-    const sources: GroundingSource[] = [];
-    const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
-    
-    if (chunks) {
-      chunks.forEach((chunk: any) => {
-        // Maps
-        if (chunk.web?.uri && chunk.web?.title) {
-          sources.push({ uri: chunk.web.uri, title: chunk.web.title });
-        }
-      });
-    }
+const tripReportRequest = (contents: string, signal?: AbortSignal): GenerateRequest => ({
+  task: 'tripReport',
+  model: 'gemini-2.5-flash',
+  contents,
+  signal,
+  config: {
+    systemInstruction: TRAIL_SENSE_PERSONA,
+    tools: [
+      { googleSearch: {} },
+      { googleMaps: {} }
+    ],
+  },
+});
+
+const finishTripReport = (response: GenerateResult, hike: HikeDetails): TripReport => {
+  const text = requireText(response);
+  const { sources, chunkToSource } = extractSources(response.groundingMetadata);
+  const report = parseTripReport(text, sources);
+  const parseError = report.diagnostics?.find(d => d.field === '$');
+  if (parseError) throw new ServiceFailure('parse', parseError.message);
+  report.data = applyUserInputs(report.data, hike);
+  report.data = applySolarTimes(report.data, hike.date, sources.find(s => s.coordinates)?.coordinates);
+  report.data = { ...report.data, disagreements: findDisagreements(report.data, report.summary, hike) };
+  report.citations = mapCitations(response.groundingMetadata, chunkToSource, text, report.markdownContent);
+  report.generatedAt = Date.now();
+  return report;
+};
+
+// The hourly forecast is fetched alongside the report; without one the report stands on its own
+const attachForecast = async (result: ServiceResult<TripReport>, forecast: Promise<WeatherForecast | null>): Promise<ServiceResult<TripReport>> => {
+  if (!result.ok) return result;
+  const value = await forecast;
+  return value ? { ok: true, value: { ...result.value, data: { ...result.value.data, forecast: value } } } : result;
+};
+
+const loadCachedTripReport = async (user: UserProfile, hike: HikeDetails, isBeginner: boolean): Promise<TripReport | null> => {
+  const cached = await getCached<TripReport>(tripReportCacheKey(user, hike, isBeginner));
+  return cached ? { ...cached.value, fromCache: true } : null;
+};
+
+const cacheTripReport = (user: UserProfile, hike: HikeDetails, isBeginner: boolean, report: TripReport) => {
+  setCached('tripReport', tripReportCacheKey(user, hike, isBeginner), report);
+};
 
-    return parseTripReport(text, sources);
-
-  } catch (error) {
-    console.error("Report Generation Error:", error);
-    return { 
-      summary: { difficulty: "Unknown", stats: "--", riskFactor: "Connection Error", highlights: [], tips: [], verdict: "Try again" },
-      safety: { pros: [], cons: ["Could not connect to AI service."], dealBreakers: [] },
-      markdownContent: "I'm having trouble connecting to the trail network right now. Please check your internet connection.", 
-      sources: [],
-      data: { distanceKm: 0, elevationM: 0, weatherCondition: "Unknown", tempC: 20, sunsetTime: "18:00", elevationProfile: [] }
-    };
+/**
+ * STANDARD MODEL + GROUNDING: Gemini 2.5 Flash
+ * Used for the main Trip Report using Google Search and Maps.
+ */
+export const generateTripReport = async (
+  user: UserProfile,
+  hike: HikeDetails,
+  isBeginner: boolean = false,
+  followUpQuestion?: string,
+  previousContext?: string,
+  signal?: AbortSignal,
+): Promise<ServiceResult<TripReport>> => {
+  // Follow-ups depend on the conversation so far and always go to the model
+  const isFollowUp = !!(followUpQuestion && previousContext);
+  if (!isFollowUp) {
+    const cached = await loadCachedTripReport(user, hike, isBeginner);
+    if (cached) return { ok: true, value: cached };
+  }
+
+  const prompt = buildTripReportPrompt(user, hike, isBeginner, followUpQuestion, previousContext);
+  const forecast = fetchForecast(hike, signal);
+
+  const result = await attachForecast(await runService("Report Generation Error", async (attemptSignal) =>
+    finishTripReport(await getProvider().generateContent(tripReportRequest(prompt, attemptSignal)), hike),
+    { signal, timeoutMs: REPORT_TIMEOUT_MS },
+  ), forecast);
+  if (result.ok && !isFollowUp) cacheTripReport(user, hike, isBeginner, result.value);
+  return result;
+};
+
+/**
+ * STREAMING VARIANT of generateTripReport.
+ * Calls onPart as each section (data, summary, safety, content) arrives, then resolves with the full validated report.
+ * Rejects with the abort reason if `signal` fires mid-stream. A retry after a dropped stream starts the sections over.
+ * A fresh cached report resolves immediately without streaming; `forceRefresh` skips the cache.
+ */
+export const streamTripReport = async (
+  user: UserProfile,
+  hike: HikeDetails,
+  isBeginner: boolean,
+  onPart: (part: TripReportPart) => void,
+  signal?: AbortSignal,
+  forceRefresh: boolean = false,
+): Promise<ServiceResult<TripReport>> => {
+  if (!forceRefresh) {
+    const cached = await loadCachedTripReport(user, hike, isBeginner);
+    if (cached) return { ok: true, value: cached };
   }
+
+  const prompt = buildTripReportPrompt(user, hike, isBeginner);
+  const forecast = fetchForecast(hike, signal, forceRefresh);
+
+  const streamed = await runService("Report Streaming Error", async (attemptSignal) => {
+    const parseParts = createTripReportStreamParser();
+    let text = "";
+    let groundingMetadata: GroundingMetadata | undefined;
+    let blockReason: string | undefined;
+
+    for await (const chunk of getProvider().generateContentStream(tripReportRequest(prompt, attemptSignal))) {
+      text += chunk.text;
+      if (chunk.groundingMetadata) groundingMetadata = chunk.groundingMetadata;
+      if (chunk.blockReason) blockReason = chunk.blockReason;
+      if (!attemptSignal.aborted) parseParts(text).forEach(onPart);
+    }
+    return finishTripReport({ text, groundingMetadata, blockReason }, hike);
+  }, { signal, timeoutMs: REPORT_TIMEOUT_MS });
+  const result = await attachForecast(streamed, forecast);
+
+  if (result.ok) cacheTripReport(user, hike, isBeginner, result.value);
+  return result;
 };
 
 /**
@@ -319,8 +269,9 @@ export const generateTripReport = async (
 export const generateSaferAlternatives = async (
   user: UserProfile, 
   hike: HikeDetails,
-  riskAnalysis: RiskAnalysis
-): Promise<SaferAlternative[]> => {
+  riskAnalysis: RiskAnalysis,
+  signal?: AbortSignal,
+): Promise<ServiceResult<SaferAlternative[]>> => {
   const prompt = `
     Suggest safer alternatives for this hike.
     
@@ -344,23 +295,15 @@ export const generateSaferAlternatives = async (
     ]
   `;
 
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash', // Use Flash for quick alternatives
-      contents: prompt,
-      config: {
-        responseMimeType: 'application/json'
-      }
-    });
-
-    const text = response.text;
-    if (!text) return [];
-    return JSON.parse(text) as SaferAlternative[];
-
-  } catch (e) {
-    console.error("Error fetching alternatives", e);
-    return [];
-  }
+  return runService("Error fetching alternatives", async (attemptSignal) => parseJsonList<SaferAlternative>(await getProvider().generateContent({
+    task: 'saferAlternatives',
+    model: 'gemini-2.5-flash', // Use Flash for quick alternatives
+    contents: prompt,
+    signal: attemptSignal,
+    config: {
+      responseMimeType: 'application/json'
+    }
+  })), { signal });
 };
 
 /**
@@ -369,8 +312,9 @@ export const generateSaferAlternatives = async (
  */
 export const performDeepSafetyCheck = async (
   user: UserProfile,
-  hike: HikeDetails
-): Promise<string> => {
+  hike: HikeDetails,
+  signal?: AbortSignal,
+): Promise<ServiceResult<string>> => {
   const prompt = `
     PERFORM A DEEP SAFETY ANALYSIS.
     User is ${user.experience} level.
@@ -386,73 +330,70 @@ export const performDeepSafetyCheck = async (
     Output a serious but friendly safety verdict.
   `;
 
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: prompt,
-      config: {
-        thinkingConfig: { thinkingBudget: 32768 }, // Max thinking budget for Pro
-      },
-    });
-    return response.text || "Safety analysis unavailable.";
-  } catch (error) {
-    console.error("Safety Check Error:", error);
-    return "Could not complete deep safety analysis.";
-  }
+  return runService("Safety Check Error", async (attemptSignal) => requireText(await getProvider().generateContent({
+    task: 'deepSafetyCheck',
+    model: 'gemini-3-pro-preview',
+    contents: prompt,
+    signal: attemptSignal,
+    config: {
+      thinkingConfig: { thinkingBudget: 32768 }, // Max thinking budget for Pro
+    },
+  })), { signal, timeoutMs: DEEP_CHECK_TIMEOUT_MS });
 };
 
 /**
  * CHAT MODEL: Gemini 3 Pro
  * General chatbot interface.
  */
-export const createChatSession = () => {
-  const chat = ai.chats.create({
+export const createChatSession = (): ChatSession => {
+  return getProvider().createChat({
     model: 'gemini-3-pro-preview',
-    config: {
-      systemInstruction: SUPPORT_PERSONA,
-    }
+    systemInstruction: SUPPORT_PERSONA,
   });
-  return chat;
 };
 
 /**
  * GET TRAIL TIPS
  */
-export const getTrailTips = async (user: UserProfile, hike: HikeDetails): Promise<string[]> => {
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-flash-lite-latest',
-      contents: `Provide 3-4 specific, actionable tips for hiking ${hike.trailName} at ${hike.location}. User fitness: ${user.fitness}, Experience: ${user.experience}. Keep them short. Return as JSON array of strings.`,
-      config: { responseMimeType: 'application/json' }
-    });
-    return JSON.parse(response.text || "[]");
-  } catch (e) {
-    console.error("Tips error", e);
-    return ["Stay hydrated.", "Check weather before leaving.", "Carry a map."];
-  }
+export const getTrailTips = async (user: UserProfile, hike: HikeDetails, signal?: AbortSignal): Promise<ServiceResult<string[]>> => {
+  const cacheKey = buildCacheKey('trailTips', { trail: hike.trailName, location: hike.location, profile: user });
+  const cached = await getCached<string[]>(cacheKey);
+  if (cached) return { ok: true, value: cached.value };
+
+  const result = await runService("Tips error", async (attemptSignal) => parseJsonList<string>(await getProvider().generateContent({
+    task: 'trailTips',
+    model: 'gemini-flash-lite-latest',
+    contents: `Provide 3-4 specific, actionable tips for hiking ${hike.trailName} at ${hike.location}. User fitness: ${user.fitness}, Experience: ${user.experience}. Keep them short. Return as JSON array of strings.`,
+    signal: attemptSignal,
+    config: { responseMimeType: 'application/json' }
+  })), { signal });
+  if (result.ok && result.value.length) setCached('trailTips', cacheKey, result.value);
+  return result;
 };
 
 /**
  * GET RECOMMENDED TRAILS
  */
-export const getRecommendedTrails = async (hike: HikeDetails): Promise<RecommendedTrail[]> => {
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: `Recommend 3 other trails similar to or near ${hike.trailName} in ${hike.location}. Return as JSON array of objects with fields: name, location, difficulty, reason (short).`,
-      config: { responseMimeType: 'application/json' }
-    });
-    return JSON.parse(response.text || "[]");
-  } catch (e) {
-    console.error("Recs error", e);
-    return [];
-  }
+export const getRecommendedTrails = async (hike: HikeDetails, signal?: AbortSignal): Promise<ServiceResult<RecommendedTrail[]>> => {
+  const cacheKey = buildCacheKey('recommendedTrails', { trail: hike.trailName, location: hike.location });
+  const cached = await getCached<RecommendedTrail[]>(cacheKey);
+  if (cached) return { ok: true, value: cached.value };
+
+  const result = await runService("Recs error", async (attemptSignal) => parseJsonList<RecommendedTrail>(await getProvider().generateContent({
+    task: 'recommendedTrails',
+    model: 'gemini-2.5-flash',
+    contents: `Recommend 3 other trails similar to or near ${hike.trailName} in ${hike.location}. Return as JSON array of objects with fields: name, location, difficulty, reason (short).`,
+    signal: attemptSignal,
+    config: { responseMimeType: 'application/json' }
+  })), { signal });
+  if (result.ok && result.value.length) setCached('recommendedTrails', cacheKey, result.value);
+  return result;
 };
 
 /**
  * GENERATE EMERGENCY SHEET
  */
-export const generateEmergencySheet = async (data: EmergencyContactData): Promise<string> => {
+export const generateEmergencySheet = async (data: EmergencyContactData, signal?: AbortSignal): Promise<ServiceResult<string>> => {
     const prompt = `
       Format the following hiking emergency contact data into a professional, clean, structured Emergency Sheet using Markdown.
       The output should be designed to be printed or saved as a PDF.
@@ -470,14 +411,10 @@ export const generateEmergencySheet = async (data: EmergencyContactData): Promis
       Do not add conversational text. Just the document content.
     `;
     
-    try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-        });
-        return response.text || "Could not generate sheet.";
-    } catch (e) {
-        console.error("Emergency sheet error", e);
-        return "Error generating sheet.";
-    }
+    return runService("Emergency sheet error", async (attemptSignal) => requireText(await getProvider().generateContent({
+        task: 'emergencySheet',
+        model: 'gemini-2.5-flash',
+        contents: prompt,
+        signal: attemptSignal,
+    })), { signal });
 };
\ No newline at end of file
@@ -0,0 +1,182 @@
+import { GroundingChunk, GroundingMetadata } from "@google/genai";
+import { GroundingSource, ReportCitation, TripDataField } from "../types";
+
+const TRIP_DATA_FIELDS: TripDataField[] = ['distanceKm', 'elevationM', 'weatherCondition', 'tempC', 'sunsetTime', 'elevationProfile', 'trailheadAltitudeM', 'highPointM', 'remoteness', 'waterSources'];
+
+// Maps links carry coordinates as "@lat,lng" or in a query parameter
+const COORDINATE_PATTERN = /(?:@|[?&](?:q|query|ll|center|destination)=)(-?\d{1,2}(?:\.\d+)?),\s*(-?\d{1,3}(?:\.\d+)?)/;
+
+const parseCoordinates = (uri: string): GroundingSource['coordinates'] => {
+  let decoded = uri;
+  try {
+    decoded = decodeURIComponent(uri);
+  } catch {
+    // Malformed escape; match against the raw link
+  }
+  const match = decoded.match(COORDINATE_PATTERN);
+  if (!match) return undefined;
+  const lat = Number(match[1]);
+  const lng = Number(match[2]);
+  return Math.abs(lat) <= 90 && Math.abs(lng) <= 180 ? { lat, lng } : undefined;
+};
+
+const toSource = (chunk: GroundingChunk): GroundingSource | null => {
+  if (chunk.web?.uri) {
+    return { kind: 'web', uri: chunk.web.uri, title: chunk.web.title || chunk.web.domain || chunk.web.uri };
+  }
+  if (chunk.maps?.uri || chunk.maps?.placeId) {
+    const uri = chunk.maps.uri || `https://www.google.com/maps/place/?q=place_id:${chunk.maps.placeId}`;
+    return {
+      kind: 'maps',
+      uri,
+      title: chunk.maps.title || 'Google Maps',
+      placeId: chunk.maps.placeId,
+      coordinates: parseCoordinates(uri),
+    };
+  }
+  if (chunk.retrievedContext?.uri) {
+    return { kind: 'retrieved', uri: chunk.retrievedContext.uri, title: chunk.retrievedContext.title || chunk.retrievedContext.uri };
+  }
+  return null;
+};
+
+export interface ExtractedSources {
+  sources: GroundingSource[];
+  chunkToSource: number[]; // groundingChunks index -> sources index, -1 for chunks with no usable link
+}
+
+/**
+ * SOURCES: Every grounding chunk with a link (web, Maps, retrieved documents), de-duplicated by URI.
+ */
+export const extractSources = (metadata?: GroundingMetadata): ExtractedSources => {
+  const sources: GroundingSource[] = [];
+  const chunkToSource: number[] = [];
+
+  (metadata?.groundingChunks || []).forEach(chunk => {
+    const source = toSource(chunk);
+    if (!source) {
+      chunkToSource.push(-1);
+      return;
+    }
+    const existing = sources.findIndex(s => s.uri === source.uri);
+    if (existing !== -1) {
+      chunkToSource.push(existing);
+    } else {
+      chunkToSource.push(sources.length);
+      sources.push(source);
+    }
+  });
+
+  return { sources, chunkToSource };
+};
+
+/**
+ * Sentence ranges of a Markdown body. A sentence ends at . ! or ? followed by whitespace, or at a line break,
+ * so headings and list items count as sentences and "8.4 km" doesn't split.
+ */
+export const splitSentences = (text: string): { start: number; end: number }[] => {
+  const ranges: { start: number; end: number }[] = [];
+  const pattern = /[.!?](?=\s|$)|\n/g;
+  let start = 0;
+
+  const push = (end: number) => {
+    while (start < end && /\s/.test(text[start])) start++;
+    if (end > start) ranges.push({ start, end });
+  };
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    push(match[0] === '\n' ? match.index : match.index + 1);
+    start = match.index + 1;
+  }
+  push(text.length);
+  return ranges;
+};
+
+// Segments quote the raw response, so text inside a JSON string still has its escapes (\n, \")
+const decodeJsonFragment = (raw: string): string => {
+  try {
+    return JSON.parse(`"${raw}"`);
+  } catch {
+    return raw;
+  }
+};
+
+// The TripData key whose value contains `pos` in the raw response, if it falls inside the "data" section
+const fieldAt = (responseText: string, pos: number): TripDataField | undefined => {
+  const dataStart = responseText.indexOf('"data"');
+  const dataEnd = responseText.indexOf('"summary"', dataStart);
+  if (dataStart === -1 || pos < dataStart || (dataEnd !== -1 && pos > dataEnd)) return undefined;
+
+  const keyPattern = new RegExp(`"(${TRIP_DATA_FIELDS.join('|')})"\\s*:`, 'g');
+  let field: TripDataField | undefined;
+  let match: RegExpExecArray | null;
+  while ((match = keyPattern.exec(responseText)) && match.index <= pos) {
+    field = match[1] as TripDataField;
+  }
+  return field;
+};
+
+/**
+ * CITATIONS: Maps each grounding support to the TripData field or markdownContent sentence(s) it backs.
+ * Supports on other sections (summary, safety) and segments that can't be located are dropped.
+ */
+export const mapCitations = (
+  metadata: GroundingMetadata | undefined,
+  chunkToSource: number[],
+  responseText: string,
+  markdownContent: string,
+): ReportCitation[] => {
+  const sentences = splitSentences(markdownContent);
+  const citations: ReportCitation[] = [];
+
+  (metadata?.groundingSupports || []).forEach(support => {
+    const raw = support.segment?.text;
+    const sourceIndices = [...new Set((support.groundingChunkIndices || []).map(i => chunkToSource[i]))]
+      .filter(i => i !== undefined && i >= 0);
+    if (!raw || sourceIndices.length === 0) return;
+
+    const pos = responseText.indexOf(raw);
+    const field = pos === -1 ? undefined : fieldAt(responseText, pos);
+    if (field) {
+      citations.push({ sourceIndices, field });
+      return;
+    }
+
+    const claim = decodeJsonFragment(raw).trim();
+    const at = claim ? markdownContent.indexOf(claim) : -1;
+    if (at === -1) return;
+    const covering = sentences.filter(r => r.end > at && r.start < at + claim.length);
+    if (covering.length === 0) return;
+    citations.push({ sourceIndices, sentence: { start: covering[0].start, end: covering[covering.length - 1].end } });
+  });
+
+  return citations;
+};
+
+/**
+ * Appends "[n](#source-n)" links after each cited sentence so ReactMarkdown can render them as citation markers.
+ */
+export const withCitationMarkers = (markdown: string, citations: ReportCitation[] = []): string => {
+  const byEnd = new Map<number, Set<number>>();
+  citations.forEach(c => {
+    if (!c.sentence || c.sentence.end > markdown.length) return;
+    const indices = byEnd.get(c.sentence.end) || new Set<number>();
+    c.sourceIndices.forEach(i => indices.add(i));
+    byEnd.set(c.sentence.end, indices);
+  });
+
+  // Insert from the back so earlier offsets stay valid
+  let result = markdown;
+  [...byEnd.entries()]
+    .sort((a, b) => b[0] - a[0])
+    .forEach(([end, indices]) => {
+      const markers = [...indices].sort((a, b) => a - b).map(i => `[${i + 1}](#source-${i + 1})`).join('');
+      result = result.slice(0, end) + markers + result.slice(end);
+    });
+  return result;
+};
+
+// Sources backing a TripData field, in citation order
+export const fieldSources = (citations: ReportCitation[] = [], field: TripDataField): number[] =>
+  [...new Set(citations.filter(c => c.field === field).flatMap(c => c.sourceIndices))];
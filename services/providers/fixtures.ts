@@ -0,0 +1,100 @@
+import { GroundingMetadata } from "@google/genai";
+import { AITask } from "./types";
+import { FIXTURE_FORECAST_HOURS } from "../weather/fixtures";
+
+/**
+ * CANNED RESPONSES for the offline provider.
+ * Shaped exactly like what the live model returns for each task so the parsers run unchanged.
+ */
+const TRIP_REPORT = JSON.stringify({
+  data: {
+    distanceKm: 8.4,
+    elevationM: 450,
+    weatherCondition: "Partly Cloudy",
+    tempC: 18,
+    sunsetTime: "19:12",
+    elevationProfile: [0, 12, 30, 55, 80, 100, 78, 50, 22, 0],
+    trailhead: { lat: 37.7749, lng: -122.4194 },
+    trailheadAltitudeM: 120,
+    highPointM: 570,
+    remoteness: { maxKmFromRoad: 3.5, cellCoverage: "patchy", footTraffic: "moderate" },
+    waterSources: [{ name: "Creek crossing", km: 2.1, reliability: "reliable" }, { name: "Spring below the ridge", km: 3.8, reliability: "seasonal" }],
+    timeZone: "America/Los_Angeles",
+  },
+  summary: {
+    difficulty: "Moderate",
+    stats: "8.4 km, 450 m gain",
+    riskFactor: "Afternoon wind on the ridge",
+    highlights: ["Ridge viewpoint", "Pine forest", "Creek crossing"],
+    tips: ["Start early to beat the wind", "Pace the middle climb", "Refill at the creek"],
+    verdict: "Good to go with care",
+  },
+  safety: {
+    pros: ["Well-marked trail with regular signage", "Mild temperatures for most of the day"],
+    cons: ["Exposed ridge section can get gusty after 2 PM", "Creek crossing may be slippery"],
+    dealBreakers: ["Thunderstorms are forecast"],
+  },
+  ulGear: "Sawyer Squeeze filter & 1L Smartwater bottle",
+  gearList: ["Water filter", "Wind shell", "Headlamp", "Map & compass", "First aid kit", "Sun hat"],
+  gearReason: "Mild temps but breezy on the ridge, so a light shell and sun cover are worth carrying.",
+  markdownContent: `## Conditions Overview
+Mild and partly cloudy with a light breeze picking up in the afternoon.
+
+## Route Summary
+A steady climb through pine forest to an open ridge, then back down the same way.
+
+## Recommended Gear
+- Light wind shell
+- 1.5 L of water plus a filter for the creek
+
+## Safety Notes
+Keep an eye on the sky once you're on the ridge and turn around if clouds build.
+
+## Extra Tips
+The viewpoint is best before noon when the light is soft.`,
+}, null, 2);
+
+export const MOCK_FIXTURES: Record<AITask, string> = {
+  quickTip: "Start early and you'll have the ridge views mostly to yourself!",
+  tripReport: TRIP_REPORT,
+  hourlyForecast: JSON.stringify({ hours: FIXTURE_FORECAST_HOURS }, null, 2),
+  saferAlternatives: JSON.stringify([
+    { title: "Turn around at the creek", description: "Hike the forest section only and skip the exposed ridge.", reason: "Cuts the distance in half and avoids the windiest terrain." },
+    { title: "Start two hours earlier", description: "Same route with a dawn start.", reason: "Finishes well before the afternoon wind and sunset." },
+  ]),
+  deepSafetyCheck: "This is a reasonable day for the route at your fitness level. The main concern is afternoon wind on the exposed ridge, so plan to be heading down by early afternoon and carry a warm layer.",
+  trailTips: JSON.stringify([
+    "Fill up at the creek on the way up.",
+    "Layer down before the climb to avoid sweating out.",
+    "Check the ridge forecast the night before.",
+  ]),
+  recommendedTrails: JSON.stringify([
+    { name: "Lakeshore Loop", location: "Nearby", difficulty: "Easy", reason: "Flat and shaded, great for a rest day." },
+    { name: "North Ridge Traverse", location: "Nearby", difficulty: "Hard", reason: "A step up once you're comfortable on this one." },
+    { name: "Falls Trail", location: "Nearby", difficulty: "Moderate", reason: "Similar length with a waterfall payoff." },
+  ]),
+  emergencySheet: `# TrailSense Emergency Contact Sheet
+
+| Field | Value |
+| --- | --- |
+| Status | Offline fixture — generated without contacting the AI service |
+
+**This sheet does not replace leaving your real trip plan with a trusted contact.**`,
+};
+
+export const MOCK_GROUNDING: Partial<Record<AITask, GroundingMetadata>> = {
+  tripReport: {
+    groundingChunks: [
+      { web: { uri: "https://example.com/trail-conditions", title: "Example Trail Conditions" } },
+      { maps: { uri: "https://www.google.com/maps/place/Example+Trailhead/@37.7749,-122.4194,15z", title: "Example Trailhead", placeId: "ChIJexampleTrailhead" } },
+    ],
+    groundingSupports: [
+      { segment: { text: '"distanceKm": 8.4' }, groundingChunkIndices: [1] },
+      { segment: { text: '"weatherCondition": "Partly Cloudy"' }, groundingChunkIndices: [0] },
+      { segment: { text: 'Mild and partly cloudy with a light breeze picking up in the afternoon.' }, groundingChunkIndices: [0] },
+      { segment: { text: 'A steady climb through pine forest to an open ridge' }, groundingChunkIndices: [1] },
+    ],
+  },
+};
+
+export const MOCK_CHAT_REPLY = "I'm running in offline mode, so I can only give canned answers. Try the \"Check Conditions\" form to see a sample report.";
@@ -0,0 +1,73 @@
+import { GoogleGenAI, GenerateContentResponse, FinishReason } from "@google/genai";
+import { AIProvider } from "./types";
+
+const SAFETY_FINISH_REASONS: string[] = [
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+];
+
+const getBlockReason = (response: GenerateContentResponse): string | undefined => {
+  if (response.promptFeedback?.blockReason) return response.promptFeedback.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  return finishReason && SAFETY_FINISH_REASONS.includes(finishReason) ? finishReason : undefined;
+};
+
+/**
+ * LIVE PROVIDER: Talks to the Gemini API.
+ * The client is created on first use so the app can boot without a key when another provider is selected.
+ */
+export const createGeminiProvider = (apiKey: string | undefined = process.env.API_KEY): AIProvider => {
+  let client: GoogleGenAI | null = null;
+
+  const getClient = () => {
+    if (!client) client = new GoogleGenAI({ apiKey });
+    return client;
+  };
+
+  return {
+    name: 'gemini',
+
+    generateContent: async ({ model, contents, config, signal }) => {
+      const response = await getClient().models.generateContent({
+        model,
+        contents,
+        config: { ...config, abortSignal: signal },
+      });
+      return {
+        text: response.text || "",
+        groundingMetadata: response.candidates?.[0]?.groundingMetadata,
+        blockReason: getBlockReason(response),
+      };
+    },
+
+    generateContentStream: async function* ({ model, contents, config, signal }) {
+      const stream = await getClient().models.generateContentStream({
+        model,
+        contents,
+        config: { ...config, abortSignal: signal },
+      });
+      for await (const chunk of stream) {
+        yield {
+          text: chunk.text || "",
+          groundingMetadata: chunk.candidates?.[0]?.groundingMetadata,
+          blockReason: getBlockReason(chunk),
+        };
+      }
+    },
+
+    createChat: ({ model, systemInstruction }) => {
+      const chat = getClient().chats.create({
+        model,
+        config: { systemInstruction },
+      });
+      return {
+        sendMessage: async (message) => {
+          const response = await chat.sendMessage({ message });
+          return response.text || "";
+        },
+      };
+    },
+  };
+};
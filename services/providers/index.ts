@@ -0,0 +1,41 @@
+import { AIProvider } from "./types";
+import { createGeminiProvider } from "./geminiProvider";
+import { createMockProvider } from "./mockProvider";
+import { createRecordingProvider } from "./recordingProvider";
+
+export * from "./types";
+export { createGeminiProvider, createMockProvider, createRecordingProvider };
+
+/**
+ * Picks the provider from AI_PROVIDER (see vite.config.ts):
+ * - gemini (default): live API
+ * - mock: canned fixtures, no key needed
+ * - record / replay: save live responses to fixtures/recordings/ or play them back
+ */
+const createDefaultProvider = (): AIProvider => {
+  const mode = process.env.AI_PROVIDER || 'gemini';
+  switch (mode) {
+    case 'mock':
+      return createMockProvider();
+    case 'record':
+    case 'replay':
+      return createRecordingProvider(mode, createGeminiProvider());
+    case 'gemini':
+      return createGeminiProvider();
+    default:
+      console.warn(`Unknown AI_PROVIDER "${mode}", falling back to gemini.`);
+      return createGeminiProvider();
+  }
+};
+
+let activeProvider: AIProvider | null = null;
+
+export const getProvider = (): AIProvider => {
+  if (!activeProvider) activeProvider = createDefaultProvider();
+  return activeProvider;
+};
+
+// Swap the provider at runtime (e.g. from a test harness or storybook)
+export const setProvider = (provider: AIProvider) => {
+  activeProvider = provider;
+};
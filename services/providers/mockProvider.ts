@@ -0,0 +1,41 @@
+import { AIProvider } from "./types";
+import { MOCK_FIXTURES, MOCK_GROUNDING, MOCK_CHAT_REPLY } from "./fixtures";
+
+// Streamed fixtures are cut into fixed-size chunks with a short pause so progressive UI is visible offline
+const STREAM_CHUNK_SIZE = 120;
+const STREAM_CHUNK_DELAY_MS = 40;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * OFFLINE PROVIDER: Serves canned fixtures.
+ * Deterministic: the same task always returns the same response, whatever the prompt.
+ */
+export const createMockProvider = (): AIProvider => ({
+  name: 'mock',
+
+  generateContent: async ({ task, signal }) => {
+    signal?.throwIfAborted();
+    return {
+      text: MOCK_FIXTURES[task],
+      groundingMetadata: MOCK_GROUNDING[task],
+    };
+  },
+
+  generateContentStream: async function* ({ task, signal }) {
+    const text = MOCK_FIXTURES[task];
+    for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+      await wait(STREAM_CHUNK_DELAY_MS);
+      signal?.throwIfAborted();
+      const isLast = i + STREAM_CHUNK_SIZE >= text.length;
+      yield {
+        text: text.slice(i, i + STREAM_CHUNK_SIZE),
+        groundingMetadata: isLast ? MOCK_GROUNDING[task] : undefined,
+      };
+    }
+  },
+
+  createChat: () => ({
+    sendMessage: async () => MOCK_CHAT_REPLY,
+  }),
+});
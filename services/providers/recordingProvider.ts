@@ -0,0 +1,110 @@
+import { AIProvider, GenerateRequest, GenerateResult } from "./types";
+
+// Served by the recordings middleware in vite.config.ts, which reads/writes fixtures/recordings/
+const RECORDINGS_ENDPOINT = '/__recordings';
+
+export type RecordingMode = 'record' | 'replay';
+
+/**
+ * FNV-1a hash so identical requests map to the same recording file across runs.
+ */
+const hashString = (input: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+export const getRecordingKey = ({ task, model, contents, config }: GenerateRequest): string =>
+  `${task}-${hashString(JSON.stringify({ model, contents, config }))}`;
+
+const saveRecording = async (key: string, result: GenerateResult): Promise<void> => {
+  const res = await fetch(`${RECORDINGS_ENDPOINT}/${key}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(result, null, 2),
+  });
+  if (!res.ok) throw new Error(`Failed to save recording ${key} (${res.status})`);
+};
+
+const loadRecording = async (key: string): Promise<GenerateResult> => {
+  const res = await fetch(`${RECORDINGS_ENDPOINT}/${key}`);
+  if (!res.ok) throw new Error(`No recording found for ${key}. Run once with AI_PROVIDER=record to capture it.`);
+  return res.json();
+};
+
+/**
+ * RECORD / REPLAY PROVIDER
+ * - record: forwards to the live provider and saves every response to disk.
+ * - replay: never touches the network; plays back saved responses and fails loudly on a miss.
+ */
+export const createRecordingProvider = (mode: RecordingMode, live: AIProvider): AIProvider => ({
+  name: mode,
+
+  generateContent: async (request) => {
+    const key = getRecordingKey(request);
+    if (mode === 'replay') return loadRecording(key);
+
+    const result = await live.generateContent(request);
+    try {
+      await saveRecording(key, result);
+    } catch (e) {
+      console.error("Recording error", e);
+    }
+    return result;
+  },
+
+  // Recordings store the assembled response, so a streamed call and a plain call share one file
+  generateContentStream: async function* (request) {
+    const key = getRecordingKey(request);
+    if (mode === 'replay') {
+      request.signal?.throwIfAborted();
+      yield await loadRecording(key);
+      return;
+    }
+
+    let text = '';
+    let groundingMetadata: GenerateResult['groundingMetadata'];
+    let blockReason: string | undefined;
+    for await (const chunk of live.generateContentStream(request)) {
+      text += chunk.text;
+      if (chunk.groundingMetadata) groundingMetadata = chunk.groundingMetadata;
+      if (chunk.blockReason) blockReason = chunk.blockReason;
+      yield chunk;
+    }
+    try {
+      await saveRecording(key, { text, groundingMetadata, blockReason });
+    } catch (e) {
+      console.error("Recording error", e);
+    }
+  },
+
+  createChat: (options) => {
+    const liveChat = mode === 'record' ? live.createChat(options) : null;
+    const transcript: string[] = [];
+
+    return {
+      sendMessage: async (message) => {
+        transcript.push(message);
+        const key = `chat-${hashString(JSON.stringify({ ...options, transcript }))}`;
+
+        if (!liveChat) {
+          const recorded = await loadRecording(key);
+          transcript.push(recorded.text);
+          return recorded.text;
+        }
+
+        const text = await liveChat.sendMessage(message);
+        transcript.push(text);
+        try {
+          await saveRecording(key, { text });
+        } catch (e) {
+          console.error("Recording error", e);
+        }
+        return text;
+      },
+    };
+  },
+});
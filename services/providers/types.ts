@@ -0,0 +1,48 @@
+import { GenerateContentConfig, GroundingMetadata } from "@google/genai";
+
+/**
+ * Every model call in services/gemini.ts is tagged with the feature it serves.
+ * Offline providers use the tag to pick a fixture; recordings use it in the file name.
+ */
+export type AITask =
+  | 'quickTip'
+  | 'tripReport'
+  | 'hourlyForecast'
+  | 'saferAlternatives'
+  | 'deepSafetyCheck'
+  | 'trailTips'
+  | 'recommendedTrails'
+  | 'emergencySheet';
+
+export interface GenerateRequest {
+  task: AITask;
+  model: string;
+  contents: string;
+  config?: GenerateContentConfig;
+  signal?: AbortSignal; // Kept out of config so it never ends up in recording keys
+}
+
+export interface GenerateResult {
+  text: string;
+  groundingMetadata?: GroundingMetadata;
+  blockReason?: string; // Set when the prompt or response was withheld by safety filters
+}
+
+// One streamed chunk: `text` is the delta since the previous chunk
+export type GenerateChunk = GenerateResult;
+
+export interface ChatOptions {
+  model: string;
+  systemInstruction: string;
+}
+
+export interface ChatSession {
+  sendMessage: (message: string) => Promise<string>;
+}
+
+export interface AIProvider {
+  name: string;
+  generateContent: (request: GenerateRequest) => Promise<GenerateResult>;
+  generateContentStream: (request: GenerateRequest) => AsyncGenerator<GenerateChunk>;
+  createChat: (options: ChatOptions) => ChatSession;
+}
@@ -0,0 +1,481 @@
+import { GroundingSource, LatLng, TripReport, TripReportSummary, SafetyAnalysis, TripData, FieldProvenance, ReportDiagnostic, TripReportPart, RemotenessData, CellCoverage, FootTraffic, WaterSource, WaterSourceReliability } from "../types";
+
+/**
+ * OUTPUT CONTRACT for the Trip Report.
+ * Grounding tools can't be combined with responseMimeType: 'application/json',
+ * so the schema goes in the prompt and the response is validated here instead.
+ * Key order matters: data first, markdownContent last (the streaming parser relies on it).
+ */
+export const TRIP_REPORT_OUTPUT_FORMAT = `
+    CRITICAL OUTPUT FORMAT:
+    Respond with a SINGLE JSON object and nothing else (no code fences, no commentary).
+    Use exactly these keys, in this order:
+
+    {
+      "data": {
+        "distanceKm": number,          // round-trip distance, e.g. 12.5
+        "elevationM": number,          // total elevation gain in metres, e.g. 800
+        "weatherCondition": string,    // short, e.g. "Sunny", "Stormy", "Rain"
+        "tempC": number,               // expected daytime temperature, e.g. 24
+        "sunsetTime": string,          // 24h "HH:MM", e.g. "18:45"
+        "elevationProfile": number[],  // exactly 10 integers 0-100 tracing the trail shape, e.g. [0,10,40,90,100,90,40,20,10,0]
+        "trailhead": { "lat": number, "lng": number }, // trailhead coordinates from Google Maps, decimal degrees
+        "trailheadAltitudeM": number,  // trailhead elevation above sea level in metres, e.g. 2450
+        "highPointM": number,          // highest point of the route above sea level in metres, e.g. 3100
+        "remoteness": {
+          "maxKmFromRoad": number,     // farthest the route gets from any road or trailhead, e.g. 6
+          "cellCoverage": "none" | "patchy" | "good", // phone signal along the route
+          "footTraffic": "low" | "moderate" | "high"  // how many other hikers to expect on the day
+        },
+        "waterSources": [              // places to refill along the route; [] if there are none
+          { "name": string, "km": number, "reliability": "reliable" | "seasonal" | "unreliable" } // km along the route as hiked, from the trailhead
+        ],
+        "timeZone": string             // IANA time zone of the trailhead, e.g. "America/Denver"
+      },
+      "summary": {
+        "difficulty": "Easy" | "Moderate" | "Hard",
+        "stats": string,               // "[distance] km, [gain] m gain"
+        "riskFactor": string,          // main risk, e.g. "Heat", "Storms", "None"
+        "highlights": string[],        // 2-3 short cool highlights
+        "tips": string[],              // 3 short personalized tips
+        "verdict": string              // e.g. "Good to go with care"
+      },
+      "safety": {
+        "pros": string[],              // positive safety factors
+        "cons": string[],              // potential hazards
+        "dealBreakers": string[]       // conditions under which to cancel
+      },
+      "ulGear": string,                // one specific real UL gear suggestion, e.g. "Toaks 750ml pot"
+      "gearList": string[],            // 5-7 essential packing items for this hike/weather
+      "gearReason": string,            // one sentence on why this gear is needed today
+      "markdownContent": string        // full Markdown report. Use H2 headings: Conditions Overview, Route Summary, Recommended Gear, Safety Notes, Extra Tips
+    }
+
+    If you cannot find a value, use null for it rather than guessing.
+`;
+
+type Diagnostics = ReportDiagnostic[];
+
+const DEFAULTED: FieldProvenance = { source: 'default', confidence: 'low' };
+
+/**
+ * Stand-ins used when a TripData field is missing or malformed.
+ * Chosen so they never trigger a warning on their own; each use is listed in diagnostics.
+ */
+const PLACEHOLDER_TRIP_DATA: TripData = {
+  distanceKm: 0,
+  elevationM: 0,
+  weatherCondition: 'Unknown',
+  tempC: 20,
+  sunsetTime: undefined,
+  elevationProfile: [],
+  provenance: {
+    distanceKm: DEFAULTED,
+    elevationM: DEFAULTED,
+    weatherCondition: DEFAULTED,
+    tempC: DEFAULTED,
+    sunsetTime: DEFAULTED,
+    elevationProfile: DEFAULTED,
+  },
+};
+
+const fieldPath = (path: string, key: string) => (path ? `${path}.${key}` : key);
+
+const isRecord = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const readString = (obj: Record<string, unknown>, key: string, path: string, diagnostics: Diagnostics): string | undefined => {
+  const v = obj[key];
+  if (typeof v === 'string' && v.trim()) return v.trim();
+  diagnostics.push({ field: fieldPath(path, key), message: v == null ? 'Missing value.' : `Expected text, got ${JSON.stringify(v)}.` });
+  return undefined;
+};
+
+const readNumber = (obj: Record<string, unknown>, key: string, path: string, diagnostics: Diagnostics): number | undefined => {
+  const v = obj[key];
+  const n = typeof v === 'number' ? v : typeof v === 'string' ? parseFloat(v) : NaN;
+  if (Number.isFinite(n)) return n;
+  diagnostics.push({ field: fieldPath(path, key), message: v == null ? 'Missing value.' : `Expected a number, got ${JSON.stringify(v)}.` });
+  return undefined;
+};
+
+const readStringList = (obj: Record<string, unknown>, key: string, path: string, diagnostics: Diagnostics): string[] => {
+  const v = obj[key];
+  if (Array.isArray(v)) {
+    const items = v.filter((s): s is string => typeof s === 'string').map(s => s.trim()).filter(s => s);
+    if (items.length < v.length) diagnostics.push({ field: fieldPath(path, key), message: 'Dropped entries that were not text.' });
+    return items;
+  }
+  diagnostics.push({ field: fieldPath(path, key), message: v == null ? 'Missing list.' : `Expected a list of text, got ${JSON.stringify(v)}.` });
+  return [];
+};
+
+const readSection = (obj: Record<string, unknown>, key: string, diagnostics: Diagnostics): Record<string, unknown> => {
+  const v = obj[key];
+  if (isRecord(v)) return v;
+  diagnostics.push({ field: key, message: 'Section missing from response.' });
+  return {};
+};
+
+const SUNSET_PATTERN = /^([01]?\d|2[0-3]):[0-5]\d$/;
+
+// Optional: without it, solar times fall back to Maps source coordinates or the model's sunset
+const readTrailhead = (raw: Record<string, unknown>, diagnostics: Diagnostics): LatLng | undefined => {
+  const v = raw.trailhead;
+  if (v == null) return undefined;
+  const lat = isRecord(v) ? Number(v.lat) : NaN;
+  const lng = isRecord(v) ? Number(v.lng) : NaN;
+  if (Number.isFinite(lat) && Number.isFinite(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180) return { lat, lng };
+  diagnostics.push({ field: 'data.trailhead', message: `Expected { lat, lng } in decimal degrees, got ${JSON.stringify(v)}.` });
+  return undefined;
+};
+
+// Optional: metres above sea level; only altitude-sickness scoring depends on it
+const readAltitude = (raw: Record<string, unknown>, key: string, diagnostics: Diagnostics): number | undefined => {
+  const v = raw[key];
+  if (v == null) return undefined;
+  const n = typeof v === 'number' ? v : typeof v === 'string' ? parseFloat(v) : NaN;
+  if (Number.isFinite(n) && n >= -500 && n <= 9000) return Math.round(n);
+  diagnostics.push({ field: fieldPath('data', key), message: `Expected metres above sea level, got ${JSON.stringify(v)}.` });
+  return undefined;
+};
+
+const CELL_COVERAGE: CellCoverage[] = ['none', 'patchy', 'good'];
+const FOOT_TRAFFIC: FootTraffic[] = ['low', 'moderate', 'high'];
+
+// Optional: each part is kept only when it's valid; undefined when nothing usable came back
+const readRemoteness = (raw: Record<string, unknown>, diagnostics: Diagnostics): RemotenessData | undefined => {
+  const v = raw.remoteness;
+  if (v == null) return undefined;
+  if (!isRecord(v)) {
+    diagnostics.push({ field: 'data.remoteness', message: `Expected an object, got ${JSON.stringify(v)}.` });
+    return undefined;
+  }
+  const km = typeof v.maxKmFromRoad === 'number' ? v.maxKmFromRoad : typeof v.maxKmFromRoad === 'string' ? parseFloat(v.maxKmFromRoad) : NaN;
+  const coverage = typeof v.cellCoverage === 'string' ? v.cellCoverage.toLowerCase() : undefined;
+  const traffic = typeof v.footTraffic === 'string' ? v.footTraffic.toLowerCase() : undefined;
+  const result: RemotenessData = {
+    maxKmFromRoad: Number.isFinite(km) && km >= 0 && km <= 500 ? km : undefined,
+    cellCoverage: CELL_COVERAGE.find(c => c === coverage),
+    footTraffic: FOOT_TRAFFIC.find(t => t === traffic),
+  };
+  if (v.maxKmFromRoad != null && result.maxKmFromRoad === undefined) {
+    diagnostics.push({ field: 'data.remoteness.maxKmFromRoad', message: `Expected kilometres, got ${JSON.stringify(v.maxKmFromRoad)}.` });
+  }
+  if (v.cellCoverage != null && !result.cellCoverage) {
+    diagnostics.push({ field: 'data.remoteness.cellCoverage', message: `Expected none, patchy or good, got ${JSON.stringify(v.cellCoverage)}.` });
+  }
+  if (v.footTraffic != null && !result.footTraffic) {
+    diagnostics.push({ field: 'data.remoteness.footTraffic', message: `Expected low, moderate or high, got ${JSON.stringify(v.footTraffic)}.` });
+  }
+  return Object.values(result).some(x => x !== undefined) ? result : undefined;
+};
+
+const WATER_RELIABILITY: WaterSourceReliability[] = ['reliable', 'seasonal', 'unreliable'];
+
+// Optional: entries without a name or a usable km are dropped; an empty list means the model found none
+const readWaterSources = (raw: Record<string, unknown>, diagnostics: Diagnostics): WaterSource[] | undefined => {
+  const v = raw.waterSources;
+  if (v == null) return undefined;
+  if (!Array.isArray(v)) {
+    diagnostics.push({ field: 'data.waterSources', message: `Expected a list, got ${JSON.stringify(v)}.` });
+    return undefined;
+  }
+  const sources = v.flatMap((entry): WaterSource[] => {
+    if (!isRecord(entry)) return [];
+    const name = typeof entry.name === 'string' ? entry.name.trim() : '';
+    const km = typeof entry.km === 'number' ? entry.km : typeof entry.km === 'string' ? parseFloat(entry.km) : NaN;
+    const reliability = typeof entry.reliability === 'string' ? entry.reliability.toLowerCase() : '';
+    if (!name || !Number.isFinite(km) || km < 0) return [];
+    // Unknown reliability is treated as unreliable, so the plan never counts on it
+    return [{ name, km, reliability: WATER_RELIABILITY.find(r => r === reliability) ?? 'unreliable' }];
+  });
+  if (sources.length < v.length) {
+    diagnostics.push({ field: 'data.waterSources', message: 'Dropped entries without a name or a km along the route.' });
+  }
+  return sources.sort((a, b) => a.km - b.km);
+};
+
+const readTimeZone = (raw: Record<string, unknown>, diagnostics: Diagnostics): string | undefined => {
+  const v = raw.timeZone;
+  if (v == null) return undefined;
+  try {
+    if (typeof v === 'string') {
+      new Intl.DateTimeFormat('en-US', { timeZone: v });
+      return v;
+    }
+  } catch {
+    // Unknown zone name
+  }
+  diagnostics.push({ field: 'data.timeZone', message: `Expected an IANA time zone, got ${JSON.stringify(v)}.` });
+  return undefined;
+};
+
+const validateData = (raw: Record<string, unknown>, diagnostics: Diagnostics, isGrounded: boolean): TripData => {
+  let distanceKm = readNumber(raw, 'distanceKm', 'data', diagnostics);
+  let elevationM = readNumber(raw, 'elevationM', 'data', diagnostics);
+  const weatherCondition = readString(raw, 'weatherCondition', 'data', diagnostics);
+  const tempC = readNumber(raw, 'tempC', 'data', diagnostics);
+
+  let sunsetTime = readString(raw, 'sunsetTime', 'data', diagnostics);
+  if (sunsetTime && !SUNSET_PATTERN.test(sunsetTime)) {
+    diagnostics.push({ field: 'data.sunsetTime', message: `Expected 24h HH:MM, got "${sunsetTime}".` });
+    sunsetTime = undefined;
+  }
+
+  let elevationProfile: number[] = [];
+  const profile = raw.elevationProfile;
+  if (Array.isArray(profile)) {
+    elevationProfile = profile.map(n => Number(n)).filter(n => Number.isFinite(n));
+    if (elevationProfile.length !== profile.length) {
+      diagnostics.push({ field: 'data.elevationProfile', message: 'Dropped entries that were not numbers.' });
+    }
+  } else {
+    diagnostics.push({ field: 'data.elevationProfile', message: 'Missing elevation profile.' });
+  }
+
+  if (distanceKm !== undefined && distanceKm < 0) {
+    diagnostics.push({ field: 'data.distanceKm', message: 'Distance cannot be negative.' });
+    distanceKm = undefined;
+  }
+  const trailheadAltitudeM = readAltitude(raw, 'trailheadAltitudeM', diagnostics);
+  let highPointM = readAltitude(raw, 'highPointM', diagnostics);
+  if (highPointM !== undefined && trailheadAltitudeM !== undefined && highPointM < trailheadAltitudeM) {
+    diagnostics.push({ field: 'data.highPointM', message: `High point ${highPointM} m is below the trailhead (${trailheadAltitudeM} m).` });
+    highPointM = undefined;
+  }
+
+  const remoteness = readRemoteness(raw, diagnostics);
+  const waterSources = readWaterSources(raw, diagnostics);
+
+  if (elevationM !== undefined && elevationM < 0) {
+    diagnostics.push({ field: 'data.elevationM', message: 'Elevation gain cannot be negative.' });
+    elevationM = undefined;
+  }
+
+  // Model values count as grounded; without any grounding sources they may be recall, not lookup.
+  const found: FieldProvenance = isGrounded
+    ? { source: 'grounded', confidence: 'high' }
+    : { source: 'grounded', confidence: 'medium', note: 'No grounding sources were returned.' };
+  const provenanceFor = (value: unknown): FieldProvenance => (value === undefined ? DEFAULTED : found);
+
+  return {
+    distanceKm: distanceKm ?? PLACEHOLDER_TRIP_DATA.distanceKm,
+    elevationM: elevationM ?? PLACEHOLDER_TRIP_DATA.elevationM,
+    weatherCondition: weatherCondition ?? PLACEHOLDER_TRIP_DATA.weatherCondition,
+    tempC: tempC ?? PLACEHOLDER_TRIP_DATA.tempC,
+    sunsetTime,
+    elevationProfile,
+    trailhead: readTrailhead(raw, diagnostics),
+    trailheadAltitudeM,
+    highPointM,
+    remoteness,
+    waterSources,
+    timeZone: readTimeZone(raw, diagnostics),
+    provenance: {
+      distanceKm: provenanceFor(distanceKm),
+      elevationM: provenanceFor(elevationM),
+      weatherCondition: provenanceFor(weatherCondition),
+      tempC: provenanceFor(tempC),
+      sunsetTime: provenanceFor(sunsetTime),
+      elevationProfile: elevationProfile.length > 0 ? found : DEFAULTED,
+      trailheadAltitudeM: provenanceFor(trailheadAltitudeM),
+      highPointM: provenanceFor(highPointM),
+      remoteness: provenanceFor(remoteness),
+      waterSources: provenanceFor(waterSources),
+    },
+  };
+};
+
+const validateSummary = (raw: Record<string, unknown>, diagnostics: Diagnostics): TripReportSummary => ({
+  difficulty: readString(raw, 'difficulty', 'summary', diagnostics) ?? 'Unknown',
+  stats: readString(raw, 'stats', 'summary', diagnostics) ?? '--',
+  riskFactor: readString(raw, 'riskFactor', 'summary', diagnostics) ?? 'Unknown',
+  highlights: readStringList(raw, 'highlights', 'summary', diagnostics),
+  tips: readStringList(raw, 'tips', 'summary', diagnostics),
+  verdict: readString(raw, 'verdict', 'summary', diagnostics) ?? 'Unknown',
+});
+
+const validateSafety = (raw: Record<string, unknown>, diagnostics: Diagnostics): SafetyAnalysis => ({
+  pros: readStringList(raw, 'pros', 'safety', diagnostics),
+  cons: readStringList(raw, 'cons', 'safety', diagnostics),
+  dealBreakers: readStringList(raw, 'dealBreakers', 'safety', diagnostics),
+});
+
+/**
+ * Pulls the JSON object out of the model text, tolerating stray code fences or preamble.
+ */
+export const extractJson = (text: string): unknown => {
+  const cleaned = text.replace(/```(?:json)?/g, '');
+  const start = cleaned.indexOf('{');
+  const end = cleaned.lastIndexOf('}');
+  if (start === -1 || end <= start) throw new Error('No JSON object found in response.');
+  return JSON.parse(cleaned.slice(start, end + 1));
+};
+
+/**
+ * VALIDATOR: Turns an untrusted JSON payload into a TripReport.
+ * Every missing or malformed field is recorded in report.diagnostics instead of being silently defaulted.
+ */
+export const validateTripReport = (raw: unknown, sources: GroundingSource[]): TripReport => {
+  const diagnostics: Diagnostics = [];
+  const root = isRecord(raw) ? raw : {};
+  if (!isRecord(raw)) diagnostics.push({ field: '$', message: 'Response was not a JSON object.' });
+
+  const data = validateData(readSection(root, 'data', diagnostics), diagnostics, sources.length > 0);
+  const summary = validateSummary(readSection(root, 'summary', diagnostics), diagnostics);
+  const safety = validateSafety(readSection(root, 'safety', diagnostics), diagnostics);
+
+  const ulGear = readString(root, 'ulGear', '', diagnostics);
+  const gearList = readStringList(root, 'gearList', '', diagnostics);
+  const gearReason = readString(root, 'gearReason', '', diagnostics);
+  const markdownContent = readString(root, 'markdownContent', '', diagnostics) ?? '';
+
+  return { summary, safety, markdownContent, sources, data, ulGear, gearList, gearReason, diagnostics };
+};
+
+/**
+ * PARSER: Model text -> validated TripReport.
+ */
+export const parseTripReport = (text: string, sources: GroundingSource[]): TripReport => {
+  try {
+    return validateTripReport(extractJson(text), sources);
+  } catch (e) {
+    const report = validateTripReport(null, sources);
+    report.diagnostics = [{ field: '$', message: `Could not parse JSON: ${(e as Error).message}` }];
+    report.markdownContent = text.trim();
+    return report;
+  }
+};
+
+/**
+ * Walks the top level of a (possibly unfinished) JSON object.
+ * Returns the raw text of every value that has fully arrived, plus the value still being written.
+ */
+const scanTopLevel = (text: string) => {
+  const complete: Record<string, string> = {};
+  let pending: { key: string; raw: string } | null = null;
+
+  const start = text.indexOf('{');
+  if (start === -1) return { complete, pending };
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let expecting: 'key' | 'colon' | 'value' | 'inValue' = 'key';
+  let key = '';
+  let keyStart = -1;
+  let valueStart = -1;
+
+  const finishValue = (end: number) => {
+    complete[key] = text.slice(valueStart, end).trim();
+    expecting = 'key';
+  };
+
+  for (let i = start; i < text.length; i++) {
+    const c = text[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (c === '\\') escaped = true;
+      else if (c === '"') {
+        inString = false;
+        if (depth === 1 && expecting === 'colon') key = JSON.parse(text.slice(keyStart, i + 1));
+      }
+      continue;
+    }
+
+    if (c === '"') {
+      inString = true;
+      if (depth === 1 && expecting === 'key') {
+        keyStart = i;
+        expecting = 'colon';
+      } else if (depth === 1 && expecting === 'value') {
+        valueStart = i;
+        expecting = 'inValue';
+      }
+    } else if (c === '{' || c === '[') {
+      if (depth === 1 && expecting === 'value') {
+        valueStart = i;
+        expecting = 'inValue';
+      }
+      depth++;
+    } else if (c === '}' || c === ']') {
+      depth--;
+      if (depth === 0) {
+        if (expecting === 'inValue') finishValue(i);
+        return { complete, pending };
+      }
+    } else if (depth === 1) {
+      if (c === ':' && expecting === 'colon') expecting = 'value';
+      else if (c === ',' && expecting === 'inValue') finishValue(i);
+      else if (expecting === 'value' && !/\s/.test(c)) {
+        valueStart = i;
+        expecting = 'inValue';
+      }
+    }
+  }
+
+  if (expecting === 'inValue') pending = { key, raw: text.slice(valueStart) };
+  return { complete, pending };
+};
+
+// Decodes the part of a JSON string literal received so far, e.g. "## Conditions\nSun
+const decodePartialString = (raw: string): string | null => {
+  if (!raw.startsWith('"')) return null;
+  const trimmed = raw
+    .replace(/\\u[0-9a-fA-F]{0,3}$/, '')
+    .replace(/(^|[^\\])(\\\\)*\\$/, '$1$2');
+  try {
+    return JSON.parse(trimmed + '"');
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * STREAM PARSER: Feed it the accumulated response text after every chunk.
+ * Emits each report section once it is complete, and the markdown body as it grows.
+ * Partial sections skip diagnostics; the final parseTripReport call produces those.
+ */
+export const createTripReportStreamParser = () => {
+  const emitted = new Set<string>();
+  let lastContent = '';
+
+  const parseSection = (raw: string): Record<string, unknown> | null => {
+    try {
+      const v = JSON.parse(raw);
+      return isRecord(v) ? v : null;
+    } catch {
+      return null;
+    }
+  };
+
+  return (textSoFar: string): TripReportPart[] => {
+    const parts: TripReportPart[] = [];
+    const { complete, pending } = scanTopLevel(textSoFar.replace(/```(?:json)?/g, ''));
+
+    const section = (key: 'data' | 'summary' | 'safety') => {
+      if (emitted.has(key) || !complete[key]) return null;
+      emitted.add(key);
+      return parseSection(complete[key]);
+    };
+
+    const data = section('data');
+    if (data) parts.push({ section: 'data', data: validateData(data, [], false) });
+    const summary = section('summary');
+    if (summary) parts.push({ section: 'summary', summary: validateSummary(summary, []) });
+    const safety = section('safety');
+    if (safety) parts.push({ section: 'safety', safety: validateSafety(safety, []) });
+
+    let content: string | null = null;
+    if (complete.markdownContent) content = decodePartialString(complete.markdownContent.slice(0, -1));
+    else if (pending?.key === 'markdownContent') content = decodePartialString(pending.raw);
+    if (content && content !== lastContent) {
+      lastContent = content;
+      parts.push({ section: 'content', markdownContent: content });
+    }
+
+    return parts;
+  };
+};
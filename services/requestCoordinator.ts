@@ -0,0 +1,54 @@
+/**
+ * REQUEST COORDINATOR: At most one live request per channel (e.g. 'report', 'safetyCheck').
+ * - Starting a request aborts whatever was running on that channel, so a slow old response can't land on top of a newer one.
+ * - Starting an identical request (same key) while one is in flight joins it instead of paying for a second call.
+ * - Superseded or cancelled requests resolve null; callers must drop them without touching state.
+ */
+export interface RequestCoordinator {
+  run: <T>(channel: string, key: string, task: (signal: AbortSignal) => Promise<T>) => Promise<T | null>;
+  cancel: (channel: string) => void;
+  cancelAll: () => void;
+}
+
+interface InFlightRequest {
+  key: string;
+  controller: AbortController;
+  promise: Promise<unknown>;
+}
+
+export const createRequestCoordinator = (): RequestCoordinator => {
+  const inFlight = new Map<string, InFlightRequest>();
+
+  const cancel = (channel: string) => {
+    inFlight.get(channel)?.controller.abort();
+    inFlight.delete(channel);
+  };
+
+  return {
+    run: <T>(channel: string, key: string, task: (signal: AbortSignal) => Promise<T>): Promise<T | null> => {
+      const existing = inFlight.get(channel);
+      if (existing?.key === key) return existing.promise as Promise<T | null>;
+
+      cancel(channel);
+      const controller = new AbortController();
+      const promise = task(controller.signal)
+        .then(
+          value => (controller.signal.aborted ? null : value),
+          error => {
+            if (controller.signal.aborted) return null;
+            throw error;
+          },
+        )
+        .finally(() => {
+          if (inFlight.get(channel)?.controller === controller) inFlight.delete(channel);
+        });
+
+      inFlight.set(channel, { key, controller, promise });
+      return promise;
+    },
+
+    cancel,
+
+    cancelAll: () => [...inFlight.keys()].forEach(cancel),
+  };
+};
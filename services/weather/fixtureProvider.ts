@@ -0,0 +1,18 @@
+import { parseHourlyForecast } from "./parse";
+import { FIXTURE_FORECAST_HOURS } from "./fixtures";
+import { WeatherProvider } from "./types";
+
+/**
+ * FIXTURE WEATHER: Serves the same hours for any trail and date, with no network.
+ * Pass a forecast file's parsed JSON (`{ hours: [...] }` or a bare list) to replay a real day instead of the canned one.
+ */
+export const createFixtureWeatherProvider = (raw: unknown = FIXTURE_FORECAST_HOURS): WeatherProvider => {
+  const hours = parseHourlyForecast(raw);
+  return {
+    name: 'fixture',
+    getForecast: async (request, signal) => {
+      signal?.throwIfAborted();
+      return { source: 'fixture', date: request.date, hours, fetchedAt: Date.now() };
+    },
+  };
+};
@@ -0,0 +1,23 @@
+/**
+ * CANNED FORECAST for the fixture weather provider and the mock AI provider.
+ * A mild day that turns gusty with afternoon thunder, so the hourly rules have something to find offline.
+ */
+export const FIXTURE_FORECAST_HOURS = [
+  { time: "05:00", tempC: 9, feelsLikeC: 8, windKph: 6, gustKph: 12, precipPct: 0, thunderPct: 0, uvIndex: 0, humidityPct: 82, visibilityKm: 10, condition: "Clear" },
+  { time: "06:00", tempC: 10, feelsLikeC: 9, windKph: 6, gustKph: 12, precipPct: 0, thunderPct: 0, uvIndex: 0, humidityPct: 80, visibilityKm: 10, condition: "Clear" },
+  { time: "07:00", tempC: 11, feelsLikeC: 10, windKph: 7, gustKph: 14, precipPct: 0, thunderPct: 0, uvIndex: 1, humidityPct: 76, visibilityKm: 10, condition: "Sunny" },
+  { time: "08:00", tempC: 13, feelsLikeC: 12, windKph: 8, gustKph: 15, precipPct: 0, thunderPct: 0, uvIndex: 2, humidityPct: 70, visibilityKm: 10, condition: "Sunny" },
+  { time: "09:00", tempC: 15, feelsLikeC: 15, windKph: 9, gustKph: 17, precipPct: 0, thunderPct: 0, uvIndex: 4, humidityPct: 62, visibilityKm: 10, condition: "Sunny" },
+  { time: "10:00", tempC: 17, feelsLikeC: 17, windKph: 11, gustKph: 20, precipPct: 5, thunderPct: 0, uvIndex: 5, humidityPct: 55, visibilityKm: 10, condition: "Partly cloudy" },
+  { time: "11:00", tempC: 18, feelsLikeC: 18, windKph: 13, gustKph: 24, precipPct: 5, thunderPct: 5, uvIndex: 7, humidityPct: 50, visibilityKm: 10, condition: "Partly cloudy" },
+  { time: "12:00", tempC: 19, feelsLikeC: 19, windKph: 15, gustKph: 28, precipPct: 10, thunderPct: 5, uvIndex: 8, humidityPct: 48, visibilityKm: 10, condition: "Partly cloudy" },
+  { time: "13:00", tempC: 20, feelsLikeC: 20, windKph: 18, gustKph: 33, precipPct: 15, thunderPct: 10, uvIndex: 8, humidityPct: 47, visibilityKm: 10, condition: "Building clouds" },
+  { time: "14:00", tempC: 20, feelsLikeC: 20, windKph: 20, gustKph: 38, precipPct: 25, thunderPct: 20, uvIndex: 6, humidityPct: 50, visibilityKm: 9, condition: "Building clouds" },
+  { time: "15:00", tempC: 19, feelsLikeC: 18, windKph: 22, gustKph: 45, precipPct: 45, thunderPct: 35, uvIndex: 4, humidityPct: 58, visibilityKm: 7, condition: "Isolated thunderstorms" },
+  { time: "16:00", tempC: 17, feelsLikeC: 16, windKph: 22, gustKph: 48, precipPct: 55, thunderPct: 40, uvIndex: 2, humidityPct: 66, visibilityKm: 6, condition: "Isolated thunderstorms" },
+  { time: "17:00", tempC: 16, feelsLikeC: 15, windKph: 18, gustKph: 38, precipPct: 40, thunderPct: 25, uvIndex: 1, humidityPct: 70, visibilityKm: 8, condition: "Showers" },
+  { time: "18:00", tempC: 15, feelsLikeC: 14, windKph: 14, gustKph: 28, precipPct: 20, thunderPct: 10, uvIndex: 0, humidityPct: 72, visibilityKm: 10, condition: "Partly cloudy" },
+  { time: "19:00", tempC: 14, feelsLikeC: 13, windKph: 10, gustKph: 20, precipPct: 10, thunderPct: 5, uvIndex: 0, humidityPct: 74, visibilityKm: 10, condition: "Partly cloudy" },
+  { time: "20:00", tempC: 13, feelsLikeC: 12, windKph: 8, gustKph: 15, precipPct: 5, thunderPct: 0, uvIndex: 0, humidityPct: 76, visibilityKm: 10, condition: "Clear" },
+  { time: "21:00", tempC: 12, feelsLikeC: 11, windKph: 6, gustKph: 12, precipPct: 0, thunderPct: 0, uvIndex: 0, humidityPct: 78, visibilityKm: 10, condition: "Clear" },
+];
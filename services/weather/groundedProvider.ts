@@ -0,0 +1,60 @@
+import { getProvider } from "../providers";
+import { extractJson } from "../reportSchema";
+import { ServiceFailure } from "../errors";
+import { parseHourlyForecast } from "./parse";
+import { WeatherProvider } from "./types";
+
+const FORECAST_HOURS = { from: 5, to: 21 };
+
+const buildPrompt = ({ trailName, location, date }: { trailName: string; location: string; date: string }) => `
+  USE GOOGLE SEARCH to find the hourly weather forecast for the trailhead of ${trailName} (${location}) on ${date}.
+  Give one entry per hour from ${FORECAST_HOURS.from}:00 to ${FORECAST_HOURS.to}:00 local time. Use the forecast, not seasonal averages.
+  Leave out any field the forecast doesn't give rather than guessing it.
+
+  Output ONLY JSON in this shape:
+  {
+    "hours": [
+      {
+        "time": "HH:00",
+        "tempC": number,
+        "feelsLikeC": number,
+        "windKph": number,
+        "gustKph": number,
+        "precipPct": number,       // chance of precipitation, 0-100
+        "thunderPct": number,      // chance of thunder, 0-100
+        "uvIndex": number,
+        "humidityPct": number,
+        "visibilityKm": number,
+        "condition": string        // e.g. "Partly cloudy"
+      }
+    ]
+  }
+`;
+
+/**
+ * AI-GROUNDED WEATHER: Asks the model to look the hourly forecast up with Google Search.
+ * Goes through the active AI provider, so mock and replay modes work offline too.
+ */
+export const createGroundedWeatherProvider = (): WeatherProvider => ({
+  name: 'ai-grounded',
+
+  getForecast: async (request, signal) => {
+    const response = await getProvider().generateContent({
+      task: 'hourlyForecast',
+      model: 'gemini-2.5-flash',
+      contents: buildPrompt(request),
+      signal,
+      config: { tools: [{ googleSearch: {} }] },
+    });
+    if (response.blockReason) throw new ServiceFailure('safetyBlock', `Blocked: ${response.blockReason}`);
+    if (!response.text) throw new ServiceFailure('parse', 'Empty response');
+
+    let raw: unknown;
+    try {
+      raw = extractJson(response.text);
+    } catch (e) {
+      throw new ServiceFailure('parse', (e as Error).message);
+    }
+    return { source: 'ai-grounded', date: request.date, hours: parseHourlyForecast(raw), fetchedAt: Date.now() };
+  },
+});
@@ -0,0 +1,66 @@
+import { HikeDetails, WeatherForecast } from "../../types";
+import { runService } from "../errors";
+import { buildCacheKey, getCached, setCached } from "../cache";
+import { WeatherProvider } from "./types";
+import { createGroundedWeatherProvider } from "./groundedProvider";
+import { createFixtureWeatherProvider } from "./fixtureProvider";
+
+export * from "./types";
+export { createGroundedWeatherProvider, createFixtureWeatherProvider };
+
+const FORECAST_TIMEOUT_MS = 45 * 1000;
+
+/**
+ * Picks the weather provider from WEATHER_PROVIDER (see vite.config.ts):
+ * - ai (default): hourly forecast looked up by the model with Google Search
+ * - fixture: canned hours, no network
+ */
+const createDefaultWeatherProvider = (): WeatherProvider => {
+  const mode = process.env.WEATHER_PROVIDER || 'ai';
+  switch (mode) {
+    case 'fixture':
+      return createFixtureWeatherProvider();
+    case 'ai':
+      return createGroundedWeatherProvider();
+    default:
+      console.warn(`Unknown WEATHER_PROVIDER "${mode}", falling back to ai.`);
+      return createGroundedWeatherProvider();
+  }
+};
+
+let activeWeatherProvider: WeatherProvider | null = null;
+
+export const getWeatherProvider = (): WeatherProvider => {
+  if (!activeWeatherProvider) activeWeatherProvider = createDefaultWeatherProvider();
+  return activeWeatherProvider;
+};
+
+// Swap the provider at runtime (e.g. a forecast file the user loaded)
+export const setWeatherProvider = (provider: WeatherProvider) => {
+  activeWeatherProvider = provider;
+};
+
+/**
+ * Hourly forecast for the hike date, or null if the provider couldn't give one (or the call was cancelled).
+ * The forecast is an extra: reports are built without it rather than failing. `forceRefresh` skips the cache.
+ */
+export const fetchForecast = async (hike: HikeDetails, signal?: AbortSignal, forceRefresh: boolean = false): Promise<WeatherForecast | null> => {
+  const cacheKey = buildCacheKey('forecast', { trail: hike.trailName, location: hike.location, date: hike.date });
+  if (!forceRefresh) {
+    const cached = await getCached<WeatherForecast>(cacheKey);
+    if (cached) return cached.value;
+  }
+
+  try {
+    const request = { trailName: hike.trailName, location: hike.location, date: hike.date };
+    const result = await runService("Forecast error", attemptSignal => getWeatherProvider().getForecast(request, attemptSignal), {
+      signal,
+      timeoutMs: FORECAST_TIMEOUT_MS,
+    });
+    if (!result.ok) return null;
+    setCached('forecast', cacheKey, result.value);
+    return result.value;
+  } catch {
+    return null; // Cancelled along with the report
+  }
+};
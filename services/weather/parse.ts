@@ -0,0 +1,51 @@
+import { HourlyWeather } from "../../types";
+import { ServiceFailure } from "../errors";
+
+/**
+ * Normalizes an untrusted list of forecast hours (model output or a fixture file).
+ * Hours without a valid time or temperature are dropped; other fields are kept only when they're in range.
+ */
+
+const HOUR_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+const isRecord = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const optional = (raw: Record<string, unknown>, key: string, min: number, max: number): number | undefined => {
+  const n = typeof raw[key] === 'string' ? parseFloat(raw[key] as string) : raw[key];
+  return typeof n === 'number' && Number.isFinite(n) && n >= min && n <= max ? n : undefined;
+};
+
+const readHour = (raw: unknown): HourlyWeather | null => {
+  if (!isRecord(raw)) return null;
+  const match = typeof raw.time === 'string' ? raw.time.trim().match(HOUR_PATTERN) : null;
+  const tempC = optional(raw, 'tempC', -60, 60);
+  if (!match || tempC === undefined) return null;
+
+  return {
+    time: `${match[1].padStart(2, '0')}:00`,
+    tempC,
+    feelsLikeC: optional(raw, 'feelsLikeC', -80, 70),
+    windKph: optional(raw, 'windKph', 0, 300),
+    gustKph: optional(raw, 'gustKph', 0, 400),
+    precipPct: optional(raw, 'precipPct', 0, 100),
+    thunderPct: optional(raw, 'thunderPct', 0, 100),
+    uvIndex: optional(raw, 'uvIndex', 0, 20),
+    humidityPct: optional(raw, 'humidityPct', 0, 100),
+    visibilityKm: optional(raw, 'visibilityKm', 0, 100),
+    condition: typeof raw.condition === 'string' && raw.condition.trim() ? raw.condition.trim() : undefined,
+  };
+};
+
+// Accepts `{ hours: [...] }` or a bare array; one entry per hour, sorted
+export const parseHourlyForecast = (raw: unknown): HourlyWeather[] => {
+  const list = Array.isArray(raw) ? raw : isRecord(raw) && Array.isArray(raw.hours) ? raw.hours : null;
+  if (!list) throw new ServiceFailure('parse', 'Expected a list of forecast hours');
+
+  const byTime = new Map<string, HourlyWeather>();
+  list.map(readHour).forEach(hour => {
+    if (hour && !byTime.has(hour.time)) byTime.set(hour.time, hour);
+  });
+  if (byTime.size === 0) throw new ServiceFailure('parse', 'No usable forecast hours');
+  return [...byTime.values()].sort((a, b) => a.time.localeCompare(b.time));
+};
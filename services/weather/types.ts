@@ -0,0 +1,15 @@
+import { WeatherForecast } from "../../types";
+
+export interface WeatherRequest {
+  trailName: string;
+  location: string;
+  date: string; // YYYY-MM-DD
+}
+
+/**
+ * A source of hourly forecasts. Throws when it can't answer; callers treat the forecast as optional.
+ */
+export interface WeatherProvider {
+  name: string;
+  getForecast: (request: WeatherRequest, signal?: AbortSignal) => Promise<WeatherForecast>;
+}
@@ -7,6 +7,8 @@ export enum ExperienceLevel {
 export interface UserProfile {
   experience: ExperienceLevel;
   fitness: 'low' | 'medium' | 'high';
+  acclimatized?: boolean; // Spent several days above ~2,500 m in the last two weeks
+  bodyWeightKg?: number; // For sweat and calorie estimates; an average adult is assumed when missing
 }
 
 export interface HikeDetails {
@@ -16,11 +18,17 @@ export interface HikeDetails {
   startTime: string;
   distanceKm?: number;
   notes?: string;
+  remoteness?: RemotenessData; // What the user knows about signal, traffic and bail-out roads
 }
 
+export type GroundingSourceKind = 'web' | 'maps' | 'retrieved';
+
 export interface GroundingSource {
   title: string;
   uri: string;
+  kind?: GroundingSourceKind; // Missing on reports saved before Maps grounding was kept (all web)
+  placeId?: string; // Google Maps place ID
+  coordinates?: LatLng; // Parsed from the Maps link when it carries them
 }
 
 export interface TripReportSummary {
@@ -38,6 +46,148 @@ export interface SafetyAnalysis {
   dealBreakers: string[];
 }
 
+// Where a TripData value came from
+export type DataSource = 'grounded' | 'user' | 'computed' | 'default';
+export type DataConfidence = 'high' | 'medium' | 'low';
+
+export interface FieldProvenance {
+  source: DataSource;
+  confidence: DataConfidence;
+  note?: string; // e.g. "Model answer had no grounding sources"
+}
+
+export type TripDataField = 'distanceKm' | 'elevationM' | 'weatherCondition' | 'tempC' | 'sunsetTime' | 'elevationProfile' | 'trailheadAltitudeM' | 'highPointM' | 'remoteness' | 'waterSources';
+
+export type CellCoverage = 'none' | 'patchy' | 'good';
+export type FootTraffic = 'low' | 'moderate' | 'high';
+
+// How far from help the route gets; each part may be missing
+export interface RemotenessData {
+  maxKmFromRoad?: number; // Farthest the route gets from a road or trailhead
+  cellCoverage?: CellCoverage;
+  footTraffic?: FootTraffic; // How many other hikers to expect
+}
+
+export type WaterSourceReliability = 'reliable' | 'seasonal' | 'unreliable';
+
+// Somewhere to refill along the route
+export interface WaterSource {
+  name: string; // e.g. "Bear Creek crossing"
+  km: number; // Along the route as hiked, from the trailhead
+  reliability: WaterSourceReliability; // Only reliable sources are counted on in the water plan
+}
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface MoonPhase {
+  fraction: number; // 0 = new, 0.5 = full, back to 1
+  illumination: number; // 0-1 lit share of the disc
+  name: string; // e.g. "Waxing Gibbous"
+}
+
+// Times are trail-local "HH:MM"; null when the sun never reaches that angle that day (polar summer/winter)
+export interface SolarTimes {
+  sunrise: string | null;
+  sunset: string | null;
+  civilDawn: string | null;
+  civilDusk: string | null; // Sun 6° below horizon: too dark to hike without a headlamp
+  nauticalDawn: string | null;
+  nauticalDusk: string | null; // Sun 12° below horizon: full darkness for navigation purposes
+  daylightMinutes: number;
+  moon: MoonPhase;
+}
+
+export interface PaceSegment {
+  fromKm: number;
+  toKm: number;
+  ascentM: number;
+  descentM: number;
+  minutes: number; // Moving time for this segment, buffer included
+  eta: string; // Clock time at the end of the segment, "H:MM"
+}
+
+// A point on a distance-based elevation series (see utils/elevation.ts)
+export interface ElevationPoint {
+  km: number;
+  ele: number; // Metres: above sea level for imported tracks, above the start otherwise
+}
+
+export interface GradeSegment {
+  fromKm: number;
+  toKm: number;
+  gradePct: number; // Signed: negative is downhill
+}
+
+export interface PacePlan {
+  segments: PaceSegment[];
+  turnaroundKm: number; // Where the return leg starts (the high point for out-and-backs)
+  turnaround: string; // "H:MM"
+  finish: string; // "H:MM"
+  outboundMinutes: number;
+  returnMinutes: number;
+  totalMinutes: number;
+}
+
+export type RouteFormat = 'gpx' | 'kml' | 'geojson';
+
+export interface TrackPoint {
+  lat: number;
+  lng: number;
+  ele?: number; // Metres above sea level, when the file has it
+  km: number; // Cumulative distance from the first point
+}
+
+// Computed locally from an imported track
+export interface RouteStats {
+  distanceKm: number;
+  gainM: number;
+  lossM: number;
+  minAltitudeM?: number; // Missing when the track has no elevation
+  maxAltitudeM?: number;
+}
+
+export interface RouteTrack {
+  fileName: string;
+  format: RouteFormat;
+  name?: string; // Track name from the file
+  points: TrackPoint[]; // Thinned for storage; stats are computed before thinning
+  stats: RouteStats;
+}
+
+// One forecast hour at the trailhead; optional fields are ones the source didn't give
+export interface HourlyWeather {
+  time: string; // "HH:00" local time; the hour runs to the next one
+  tempC: number;
+  feelsLikeC?: number;
+  windKph?: number;
+  gustKph?: number;
+  precipPct?: number; // Chance of precipitation, 0-100
+  thunderPct?: number; // Chance of thunder, 0-100
+  uvIndex?: number;
+  humidityPct?: number;
+  visibilityKm?: number;
+  condition?: string; // e.g. "Partly cloudy"
+}
+
+export interface WeatherForecast {
+  source: string; // Weather provider name (see services/weather)
+  date: string; // The day the hours belong to
+  hours: HourlyWeather[]; // Sorted by time
+  fetchedAt: number;
+}
+
+// Two sources for the same trip fact that don't agree, e.g. the user's distance vs the model's
+export type DisagreementCheck = 'distance-user' | 'distance-track' | 'elevation-track' | 'summary-stats' | 'grade' | 'temp-weather';
+
+export interface DataDisagreement {
+  check: DisagreementCheck;
+  label: string; // Short, for the risk factor, e.g. "distance vs your entry"
+  message: string; // Full sentence for the banner
+}
+
 export interface TripData {
   distanceKm: number;
   elevationM: number;
@@ -45,14 +195,37 @@ export interface TripData {
   tempC: number;
   sunsetTime?: string; // e.g. "18:30"
   elevationProfile?: number[]; // simplified array of numbers for graph
+  trailhead?: LatLng;
+  trailheadAltitudeM?: number; // Metres above sea level, from the imported track or the model
+  highPointM?: number; // Highest point of the route above sea level
+  remoteness?: RemotenessData; // From the model or the planner form
+  waterSources?: WaterSource[]; // Sorted by km; empty when the model found none
+  timeZone?: string; // IANA zone of the trailhead, e.g. "America/Denver"
+  solar?: SolarTimes; // Computed locally from trailhead + hike date
+  routeStats?: RouteStats; // Present when the values above were checked against an imported track
+  forecast?: WeatherForecast; // Hour-by-hour weather for the hike date, when a weather provider answered
+  disagreements?: DataDisagreement[]; // Consistency check results; missing on reports saved before it existed
+  provenance?: Partial<Record<TripDataField, FieldProvenance>>; // Missing entries = legacy data, origin unknown
 }
 
 export interface WarningChip {
-  type: 'Heat' | 'Storm' | 'Late' | 'Steep' | 'Remote' | 'Cold';
+  type: 'Heat' | 'Storm' | 'Late' | 'Steep' | 'Remote' | 'Cold' | 'Altitude';
   label: string;
   severity: 'yellow' | 'orange' | 'red';
 }
 
+export interface ReportDiagnostic {
+  field: string; // dotted path into the report, e.g. "data.sunsetTime"
+  message: string;
+}
+
+// A claim in the response backed by grounding sources
+export interface ReportCitation {
+  sourceIndices: number[]; // Into TripReport.sources
+  sentence?: { start: number; end: number }; // Character range of the markdownContent sentence it supports
+  field?: TripDataField; // The TripData value it supports
+}
+
 export interface TripReport {
   summary: TripReportSummary;
   safety: SafetyAnalysis;
@@ -63,8 +236,34 @@ export interface TripReport {
   ulGear?: string; // Single string suggestion
   gearList?: string[]; // Structured list for dropdown
   gearReason?: string; // Explanation for dropdown
+  diagnostics?: ReportDiagnostic[]; // Fields the model omitted or got wrong
+  citations?: ReportCitation[];
+  generatedAt?: number; // Epoch ms when the model produced this report
+  fromCache?: boolean; // Served from the local response cache rather than a fresh call
 }
 
+export type ServiceErrorKind = 'network' | 'quota' | 'safetyBlock' | 'parse' | 'timeout';
+
+export interface ServiceError {
+  kind: ServiceErrorKind;
+  message: string; // Shown to the user
+  retryable: boolean; // Trying again later may succeed
+}
+
+// Every AI service call resolves to one of these instead of a stand-in value
+export type ServiceResult<T> =
+  | { ok: true; value: T; error?: undefined }
+  | { ok: false; value?: undefined; error: ServiceError };
+
+// A section of the Trip Report as it arrives from a streaming response
+export type TripReportPart =
+  | { section: 'data'; data: TripData }
+  | { section: 'summary'; summary: TripReportSummary }
+  | { section: 'safety'; safety: SafetyAnalysis }
+  | { section: 'content'; markdownContent: string }; // Cumulative text so far
+
+export type StreamingTripReport = Partial<Pick<TripReport, 'data' | 'summary' | 'safety' | 'markdownContent'>>;
+
 export interface AIResponse {
   report: TripReport;
 }
@@ -89,6 +288,159 @@ export interface RiskAnalysis {
   score: number;
   factors: RiskFactor[];
   color: string;
+  ruleSetVersion?: string; // Rule set the score came from; absent on analyses saved before versioning
+}
+
+// --- Risk rules (see utils/riskRules.ts) ---
+
+// Values the engine derives from the trip; numeric metrics are missing when their input was defaulted
+export type RiskMetric =
+  | 'distanceKm'
+  | 'elevationM'
+  | 'gainPerKm'
+  | 'maxGradePct' // Steepest stretch of the elevation profile, up or down
+  | 'tempC' // The report's single temperature; rules use the hourly min/max below
+  | 'maxTempC' // Hottest hour on the trail (or tempC without a forecast)
+  | 'minTempC' // Coldest hour on the trail (or tempC without a forecast)
+  | 'maxGustKph'
+  | 'maxPrecipPct'
+  | 'maxThunderPct'
+  | 'exposedMinutes' // Time on exposed ground (above treeline or near the high point)
+  | 'exposedThunderPct' // Worst thunder chance while on exposed ground
+  | 'heatStress' // Thermal grade 0-3 (none, caution, high, extreme); see utils/thermalStress.ts
+  | 'coldStress'
+  | 'maxUvIndex'
+  | 'highPointM'
+  | 'ascentRateMPerH' // Climb from the trailhead to the high point, metres per hour
+  | 'altitudeRisk' // AMS grade 0-3 (none, low, moderate, high); see utils/altitude.ts
+  | 'remoteness' // Grade 0-3 (none, low, moderate, high); see utils/remoteness.ts
+  | 'minVisibilityKm'
+  | 'weather' // Hourly conditions while on the trail, or the report's weather string
+  | 'startHour'
+  | 'packWeightKg'
+  | 'minutesPastSunset'
+  | 'minutesPastCivilDusk'
+  | 'unknownInputCount'
+  | 'disagreementCount';
+
+// A fixed number, or one looked up by the hiker's experience or fitness
+export type RiskThreshold =
+  | number
+  | { byExperience: Record<ExperienceLevel, number> }
+  | { byFitness: Record<UserProfile['fitness'], number> };
+
+export type RiskCondition =
+  | { metric: RiskMetric; op: '>' | '>=' | '<' | '<='; value: RiskThreshold }
+  | { metric: RiskMetric; op: 'includesAny'; value: string[] }
+  | { metric: RiskMetric; op: 'missing' | 'present' };
+
+export interface RiskRule {
+  id: string;
+  group: string; // Rules sharing a group are tried in order; only the first match fires
+  when: RiskCondition[]; // All must hold
+  // description may use {experience}, {finish}, {sunset}, {civilDusk}, {unknownInputs}, {disagreements}, {steepestGrade}, {steepestKm},
+  // the hourly peaks {maxTemp} {maxTempTime} {minTemp} {minTempTime} {gust} {gustTime} {precip} {precipTime} {thunder} {thunderTime} {uv} {uvTime} {visibility} {visibilityTime},
+  // storm exposure {exposureWindow} {exposedThunder} {offSummitBy},
+  // thermal stress {exertion} {heatIndex} {heatIndexWhen} {windChill} {windChillWhen} ("When" is " around HH:00" or empty),
+  // altitude {highPoint} {climbRate} (" climbing ~N m/h" or empty) {acclimatization},
+  // and remoteness {hoursFromRoad} {kmFromRoad} {remoteNotes} (", no cell signal, few other hikers" or empty)
+  factor?: RiskFactor;
+  chip?: WarningChip; // label may use the same placeholders
+}
+
+export interface RiskRuleSet {
+  version: string;
+  levels: { level: RiskLevel; minScore: number; color: string }[]; // Highest minScore first
+  rules: RiskRule[];
+}
+
+// Spread of a simulated clock time (see utils/simulation.ts); times are "H:MM"
+export interface TimeBand {
+  p10: string;
+  p50: string;
+  p90: string;
+}
+
+export interface TripSimulation {
+  samples: number;
+  riskSamples: number; // How many of the samples the risk engine scored
+  turnaround: TimeBand | null; // null when the distance is unknown
+  finish: TimeBand | null;
+  pAfterSunset?: number; // 0-1; missing when sunset is unknown
+  pAfterDark?: number; // Past civil dusk
+  levelProbabilities: Record<RiskLevel, number>; // 0-1, sums to 1
+}
+
+// A stretch of the route with no shelter from lightning (see utils/stormExposure.ts)
+export interface ExposureWindow {
+  fromKm: number;
+  toKm: number;
+  enter: string; // "H:MM"
+  leave: string;
+  reason: 'treeline' | 'summit'; // Above the estimated treeline, or close to the high point
+}
+
+export interface StormExposure {
+  windows: ExposureWindow[];
+  treelineM?: number; // Estimated from latitude; only when the route's absolute altitudes are known
+  thunderPct?: number; // Worst forecast thunder chance while on exposed ground
+  thunderTime?: string; // Forecast hour it falls in
+  thunderWindow?: ExposureWindow; // The exposed window that hour overlaps
+  offSummitBy?: string; // "HH:MM": leave exposed ground before this
+  offSummitBasis?: 'forecast' | 'rule-of-thumb';
+}
+
+// Heat index / wind chill on the trail, graded for how hard the hiker is working (see utils/thermalStress.ts)
+export type Exertion = 'light' | 'moderate' | 'hard';
+export type ThermalGrade = 'none' | 'caution' | 'high' | 'extreme';
+
+export interface ThermalStress {
+  exertion: Exertion; // From climbing per km and pack weight
+  heatIndexC?: number; // Hottest it feels (air temperature plus humidity)
+  heatIndexTime?: string; // Forecast hour, when there is a forecast
+  windChillC?: number; // Coldest it feels (air temperature plus wind)
+  windChillTime?: string;
+  wet: boolean; // Rain or snow likely while out
+  heat: ThermalGrade; // Heat illness
+  cold: ThermalGrade; // Hypothermia / frostbite
+}
+
+// Acute mountain sickness risk for the day (see utils/altitude.ts)
+export type AltitudeGrade = 'none' | 'low' | 'moderate' | 'high';
+
+export interface AltitudeRisk {
+  highPointM: number;
+  trailheadM?: number;
+  ascentRateMPerH?: number; // Trailhead to high point; missing without a trailhead altitude
+  fastAscent: boolean;
+  acclimatized: boolean;
+  grade: AltitudeGrade;
+}
+
+export type RemotenessGrade = 'none' | 'low' | 'moderate' | 'high';
+
+// How long it takes to walk out to help (see utils/remoteness.ts)
+export interface RemotenessAssessment {
+  kmFromRoad: number;
+  kmSource: 'reported' | 'route'; // Model/user figure, or the turnaround distance of the route itself
+  hoursFromRoad: number; // At the planned pace
+  cellCoverage?: CellCoverage;
+  footTraffic?: FootTraffic;
+  grade: RemotenessGrade;
+  recommendPlb: boolean;
+}
+
+// A candidate start date/time scored by the risk engine (see utils/hikeWindows.ts)
+export interface HikingWindow {
+  date: string; // "YYYY-MM-DD"
+  startTime: string; // "HH:MM"
+  finish: string; // "H:MM"
+  sunset?: string; // "HH:MM", when known for that date
+  minutesBeforeSunset?: number; // Negative when the finish is after sunset
+  heatExposureMinutes: number; // Time on trail during the midday heat peak on a hot day
+  stormExposureMinutes: number; // Time on trail during the afternoon storm window when storms are forecast
+  forecastChecked: boolean; // False when the report's forecast doesn't cover this date
+  risk: RiskAnalysis;
 }
 
 export interface SaferAlternative {
@@ -105,6 +457,7 @@ export interface HistoryItem {
   hikeDetails: HikeDetails;
   report: TripReport;
   riskAnalysis: RiskAnalysis;
+  route?: RouteTrack; // Imported track the report was checked against
 }
 
 export interface RecommendedTrail {
@@ -146,4 +499,50 @@ export interface EmergencyContactData {
   weather: string;
   terrain: string;
   hazards: string;
-}
\ No newline at end of file
+}
+
+// Gear closet (see utils/gearCloset.ts): the user's own kit with real weights
+export type GearCategory = 'pack' | 'shelter' | 'clothing' | 'water' | 'food' | 'navigation' | 'safety' | 'electronics' | 'cooking' | 'other';
+
+export interface GearItem {
+  id: string;
+  name: string;
+  weightG: number;
+  category: GearCategory;
+  worn?: boolean; // On your body rather than in the pack (boots, the layer you hike in)
+  consumable?: boolean; // Used up on the trip (food, water, fuel)
+}
+
+// Weights of the trip's pack list; carried = base + consumables, the number the legs feel
+export interface PackWeights {
+  baseKg: number;
+  wornKg: number;
+  consumableKg: number;
+  carriedKg: number;
+  itemCount: number;
+}
+
+// One stretch of the water plan, between the trailhead, refills and the finish
+export interface WaterLeg {
+  fromKm: number;
+  toKm: number;
+  minutes: number; // At the planned pace
+  carryL: number; // Drink for the stretch plus a reserve
+  refillAt?: string; // Source at the start of the stretch; missing for the first
+}
+
+// Water and food for the day (see utils/supplies.ts)
+export interface SupplyPlan {
+  bodyWeightKg: number;
+  bodyWeightAssumed: boolean; // No weight in the profile
+  hours: number;
+  sweatLPerHour: number;
+  waterL: number; // To drink over the whole hike
+  legs: WaterLeg[];
+  startCarryL: number; // Leaving the trailhead
+  maxCarryL: number; // Most carried at once, for bottle capacity
+  backupSources: WaterSource[]; // Seasonal or unreliable: listed, not counted on
+  kcalBurned: number;
+  foodKcal: number; // To eat on the trail
+  foodKg: number;
+}
@@ -0,0 +1,66 @@
+import { AltitudeGrade, AltitudeRisk, PacePlan, TripData, UserProfile } from '../types';
+import { elevationSeries } from './elevation';
+import { minutesAtKm } from './pace';
+
+/**
+ * ALTITUDE: Acute mountain sickness risk from how high the route goes and how fast you get there.
+ * Gain alone can't tell a 600 m climb at sea level from one topping out at 3,800 m.
+ */
+
+export const ALTITUDE_GRADES: AltitudeGrade[] = ['none', 'low', 'moderate', 'high'];
+
+// High point bands (m) where AMS becomes possible / common / likely for people coming up from low ground
+const HIGH_POINT_BANDS = [2500, 3000, 3500];
+const FAST_ASCENT_M_PER_H = 300; // Faster than this from the trailhead leaves no time to adjust
+
+const gradeAt = (index: number) => ALTITUDE_GRADES[Math.max(0, Math.min(ALTITUDE_GRADES.length - 1, index))];
+
+/**
+ * Null when the high point isn't known. A fast climb raises the grade one step and recent acclimatization
+ * lowers it one; neither moves a route that stays below the first band.
+ */
+export const assessAltitude = (data: TripData, user: UserProfile, plan: PacePlan, timeScale = 1): AltitudeRisk | null => {
+  if (data.highPointM === undefined) return null;
+  const trailheadM = data.trailheadAltitudeM;
+
+  // Time to the top of the profile on the pace plan's clock
+  let ascentRateMPerH: number | undefined;
+  if (trailheadM !== undefined && data.distanceKm > 0) {
+    const { points } = elevationSeries(data);
+    const top = points.reduce((best, p) => (p.ele > best.ele ? p : best), points[0]);
+    const hours = (minutesAtKm(plan, top.km) * timeScale) / 60;
+    if (hours > 0) ascentRateMPerH = Math.max(0, data.highPointM - trailheadM) / hours;
+  }
+
+  const base = HIGH_POINT_BANDS.filter(b => data.highPointM >= b).length;
+  const fastAscent = ascentRateMPerH !== undefined && ascentRateMPerH >= FAST_ASCENT_M_PER_H;
+  const acclimatized = !!user.acclimatized;
+  const climbed = Math.min(HIGH_POINT_BANDS.length, base + (fastAscent ? 1 : 0));
+  const grade = base === 0 ? 'none' : gradeAt(climbed - (acclimatized ? 1 : 0));
+
+  return { highPointM: data.highPointM, trailheadM, ascentRateMPerH, fastAscent, acclimatized, grade };
+};
+
+const GEAR: Record<Exclude<AltitudeGrade, 'none'>, string[]> = {
+  low: ['Sun hat and SPF 50 (UV is stronger up high)', 'Extra warm layer (about 6°C colder per 1,000 m)'],
+  moderate: ['Electrolyte tablets', 'Pulse oximeter to check how you are adjusting'],
+  high: ['Any altitude medication your doctor has prescribed', 'Headlamp in case symptoms slow the descent'],
+};
+
+const TIPS: Record<Exclude<AltitudeGrade, 'none'>, string[]> = {
+  low: ['Drink steadily; dry mountain air dehydrates you faster', 'Climb at a pace where you can still talk'],
+  moderate: [
+    'Sleep a night at a middle altitude before the hike if you can',
+    'Headache with nausea, dizziness or unusual tiredness is altitude sickness: stop climbing',
+  ],
+  high: [
+    'Descend at once for confusion, stumbling or breathlessness at rest',
+    'Skip alcohol the night before and keep the first hour easy',
+  ],
+};
+
+// Gear and tips for this grade and every grade below it
+export const altitudeAdvice = (risk: AltitudeRisk | null): { gear: string[]; tips: string[] } => {
+  const grades = ALTITUDE_GRADES.slice(1, risk ? ALTITUDE_GRADES.indexOf(risk.grade) + 1 : 1) as Exclude<AltitudeGrade, 'none'>[];
+  return { gear: grades.flatMap(g => GEAR[g]), tips: grades.flatMap(g => TIPS[g]) };
+};
@@ -0,0 +1,137 @@
+import { DataDisagreement, HikeDetails, RouteTrack, TripData, TripReportSummary } from '../types';
+import { getProvenance, isDefaulted } from './provenance';
+import { elevationSeries, steepestSegments } from './elevation';
+
+/**
+ * CONSISTENCY CHECK: Compares every source we have for the same trip facts (the form, an imported track,
+ * the model's summary line and its structured data) and flags the ones that can't all be true.
+ * A disagreement doesn't say which side is wrong, only that the numbers shouldn't be trusted as-is.
+ */
+
+const DISTANCE_TOLERANCE = { ratio: 0.2, minKm: 0.5 };
+const ELEVATION_TOLERANCE = { ratio: 0.25, minM: 50 };
+const MAX_AVERAGE_GRADE_PCT = 35; // Total gain over total distance; steeper is beyond almost any trail
+const MAX_STRETCH_GRADE_PCT = 70; // Steepest profile stretch
+const SNOW_ABOVE_C = 10;
+const HEAT_BELOW_C = 15;
+
+const differs = (a: number, b: number, ratio: number, minAbs: number) =>
+  Math.abs(a - b) > Math.max(minAbs, ratio * Math.max(Math.abs(a), Math.abs(b)));
+
+// The summary line is free text like "12.5 km, 850 m gain" (sometimes miles/feet)
+const parseStats = (stats: string): { distanceKm?: number; elevationM?: number } => {
+  const distance = stats.match(/(\d+(?:\.\d+)?)\s*(km|kilomet(?:er|re)s?|mi|miles?)\b/i);
+  const elevation = stats.match(/(\d{1,3}(?:,\d{3})+|\d+(?:\.\d+)?)\s*(m|met(?:er|re)s?|ft|feet)\b/i);
+  const number = (text: string) => parseFloat(text.replace(/,/g, ''));
+  return {
+    distanceKm: distance ? number(distance[1]) * (/^mi/i.test(distance[2]) ? 1.609 : 1) : undefined,
+    elevationM: elevation ? number(elevation[1]) * (/^f/i.test(elevation[2]) ? 0.3048 : 1) : undefined,
+  };
+};
+
+const words = (text: string, list: string[]) => list.some(word => new RegExp(`\\b${word}`, 'i').test(text));
+
+/**
+ * Runs every check. `data` is the model's data before an imported track replaced any of it,
+ * so the track can be compared with what the model actually said.
+ */
+export const findDisagreements = (
+  data: TripData,
+  summary: TripReportSummary,
+  hike: HikeDetails,
+  track?: RouteTrack | null,
+): DataDisagreement[] => {
+  const found: DataDisagreement[] = [];
+  const known = (field: 'distanceKm' | 'elevationM' | 'tempC' | 'weatherCondition' | 'elevationProfile') => !isDefaulted(data, field);
+  // The model's own distance, as opposed to one we filled in from the form
+  const modelDistance = known('distanceKm') && getProvenance(data, 'distanceKm').source !== 'user';
+  const km = (n: number) => `${parseFloat(n.toFixed(1))} km`;
+
+  // Form vs the best measurement we have
+  if (hike.distanceKm && hike.distanceKm > 0) {
+    const measured = track ? track.stats.distanceKm : modelDistance ? data.distanceKm : undefined;
+    if (measured !== undefined && differs(hike.distanceKm, measured, DISTANCE_TOLERANCE.ratio, DISTANCE_TOLERANCE.minKm)) {
+      found.push({
+        check: 'distance-user',
+        label: 'distance vs your entry',
+        message: `You entered ${km(hike.distanceKm)} but ${track ? `${track.fileName} measures` : 'the report says'} ${km(measured)}.`,
+      });
+    }
+  }
+
+  // Imported track vs the model
+  if (track) {
+    if (modelDistance && differs(data.distanceKm, track.stats.distanceKm, DISTANCE_TOLERANCE.ratio, DISTANCE_TOLERANCE.minKm)) {
+      found.push({
+        check: 'distance-track',
+        label: 'distance vs imported track',
+        message: `The AI said ${km(data.distanceKm)} but ${track.fileName} measures ${km(track.stats.distanceKm)}.`,
+      });
+    }
+    if (track.stats.maxAltitudeM !== undefined && known('elevationM')
+      && differs(data.elevationM, track.stats.gainM, ELEVATION_TOLERANCE.ratio, ELEVATION_TOLERANCE.minM)) {
+      found.push({
+        check: 'elevation-track',
+        label: 'elevation vs imported track',
+        message: `The AI said ${data.elevationM} m of gain but ${track.fileName} measures ${track.stats.gainM} m.`,
+      });
+    }
+  }
+
+  // The model's summary line vs its own structured data
+  const stats = parseStats(summary.stats || '');
+  const statsConflicts = [
+    stats.distanceKm !== undefined && known('distanceKm')
+      && differs(stats.distanceKm, data.distanceKm, DISTANCE_TOLERANCE.ratio, DISTANCE_TOLERANCE.minKm)
+      && `${km(stats.distanceKm)} vs ${km(data.distanceKm)}`,
+    stats.elevationM !== undefined && known('elevationM')
+      && differs(stats.elevationM, data.elevationM, ELEVATION_TOLERANCE.ratio, ELEVATION_TOLERANCE.minM)
+      && `${Math.round(stats.elevationM)} m vs ${data.elevationM} m gain`,
+  ].filter(Boolean);
+  if (statsConflicts.length > 0) {
+    found.push({
+      check: 'summary-stats',
+      label: 'summary vs trail data',
+      message: `The report's summary ("${summary.stats}") contradicts its own trail data: ${statsConflicts.join(', ')}.`,
+    });
+  }
+
+  // Grades no trail has: usually a distance or gain that's off by an order of magnitude
+  if (known('distanceKm') && known('elevationM') && data.distanceKm > 0) {
+    const averagePct = (data.elevationM / (data.distanceKm * 1000)) * 100;
+    const steepest = known('elevationProfile') ? steepestSegments(elevationSeries(data), 1)[0] : undefined;
+    if (averagePct > MAX_AVERAGE_GRADE_PCT) {
+      found.push({
+        check: 'grade',
+        label: 'implausible grade',
+        message: `${data.elevationM} m of gain over ${km(data.distanceKm)} averages ${Math.round(averagePct)}%, steeper than almost any trail.`,
+      });
+    } else if (steepest && Math.abs(steepest.gradePct) > MAX_STRETCH_GRADE_PCT) {
+      found.push({
+        check: 'grade',
+        label: 'implausible grade',
+        message: `The elevation profile implies a ${Math.round(Math.abs(steepest.gradePct))}% grade near km ${steepest.fromKm.toFixed(1)}, steeper than almost any trail.`,
+      });
+    }
+  }
+
+  // Temperature vs the weather description
+  if (known('tempC') && known('weatherCondition')) {
+    const weather = data.weatherCondition;
+    if (words(weather, ['snow', 'sleet', 'blizzard', 'freezing', 'frost', 'ice']) && data.tempC > SNOW_ABOVE_C) {
+      found.push({
+        check: 'temp-weather',
+        label: 'temperature vs weather',
+        message: `The weather says "${weather}" but the temperature is ${data.tempC}°C.`,
+      });
+    } else if (words(weather, ['heat', 'hot', 'scorching']) && data.tempC < HEAT_BELOW_C) {
+      found.push({
+        check: 'temp-weather',
+        label: 'temperature vs weather',
+        message: `The weather says "${weather}" but the temperature is only ${data.tempC}°C.`,
+      });
+    }
+  }
+
+  return found;
+};
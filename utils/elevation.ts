@@ -0,0 +1,89 @@
+import { ElevationPoint, GradeSegment, RouteTrack, TripData } from '../types';
+import { profileMetres } from './pace';
+import { isDefaulted } from './provenance';
+
+/**
+ * ELEVATION: Distance-based elevation series and grades, from an imported track when there is one,
+ * otherwise from the report's relative profile scaled to its gain.
+ */
+
+const MIN_CHUNK_KM = 0.25; // Grades over shorter stretches are mostly noise
+const MAX_CHUNKS = 40;
+
+// Grade bands for shading, steepest first. Colors are Tailwind palette hex values.
+export const GRADE_BANDS = [
+  { minPct: 25, label: '25%+', color: '#991b1b' },
+  { minPct: 15, label: '15–25%', color: '#dc2626' },
+  { minPct: 10, label: '10–15%', color: '#f97316' },
+  { minPct: 5, label: '5–10%', color: '#fbbf24' },
+  { minPct: 0, label: '<5%', color: '#4ade80' },
+];
+
+export const gradeColor = (gradePct: number): string =>
+  (GRADE_BANDS.find(b => Math.abs(gradePct) >= b.minPct) ?? GRADE_BANDS[GRADE_BANDS.length - 1]).color;
+
+export interface ElevationSeries {
+  points: ElevationPoint[];
+  absolute: boolean; // Metres above sea level rather than above the start
+  measured: boolean; // From an imported track or a profile the report actually found
+}
+
+// Track points that have an elevation; points without one are skipped rather than read as sea level
+export const trackElevations = (track: RouteTrack): ElevationPoint[] =>
+  track.points.filter(p => p.ele !== undefined).map(p => ({ km: p.km, ele: p.ele as number }));
+
+export const elevationSeries = (data: TripData, track?: RouteTrack | null): ElevationSeries => {
+  if (track && track.stats.maxAltitudeM !== undefined) {
+    return {
+      points: trackElevations(track),
+      absolute: true,
+      measured: true,
+    };
+  }
+  const metres = profileMetres(data);
+  const step = data.distanceKm / (metres.length - 1);
+  return {
+    points: metres.map((ele, i) => ({ km: step * i, ele })),
+    absolute: false,
+    measured: !isDefaulted(data, 'elevationProfile'),
+  };
+};
+
+// Elevation at `km`, interpolated
+export const elevationAtKm = (points: ElevationPoint[], km: number): number => {
+  const i = points.findIndex(p => p.km >= km);
+  if (i === -1) return points[points.length - 1].ele;
+  if (i === 0) return points[0].ele;
+  const a = points[i - 1];
+  const b = points[i];
+  return a.ele + (b.ele - a.ele) * (b.km > a.km ? (km - a.km) / (b.km - a.km) : 0);
+};
+
+/**
+ * Average grade over equal stretches of the route. Stretches are at least MIN_CHUNK_KM long,
+ * and never shorter than the gaps between profile points (a 10-point profile can't say more than that).
+ */
+export const gradeSegments = (series: ElevationSeries): GradeSegment[] => {
+  const { points } = series;
+  const total = points[points.length - 1]?.km ?? 0;
+  if (points.length < 2 || total <= 0) return [];
+
+  const spacing = total / (points.length - 1);
+  const chunkKm = Math.max(MIN_CHUNK_KM, spacing, total / MAX_CHUNKS);
+  const count = Math.max(1, Math.round(total / chunkKm));
+  const size = total / count;
+
+  return Array.from({ length: count }, (_, i) => {
+    const fromKm = size * i;
+    const toKm = size * (i + 1);
+    const rise = elevationAtKm(points, toKm) - elevationAtKm(points, fromKm);
+    return { fromKm, toKm, gradePct: (rise / (size * 1000)) * 100 };
+  });
+};
+
+// Steepest stretches up or down, steepest first
+export const steepestSegments = (series: ElevationSeries, count: number = 3): GradeSegment[] =>
+  [...gradeSegments(series)]
+    .sort((a, b) => Math.abs(b.gradePct) - Math.abs(a.gradePct))
+    .slice(0, count)
+    .filter(s => Math.abs(s.gradePct) > 0);
@@ -0,0 +1,36 @@
+import { EmergencyContactData } from '../types';
+
+/**
+ * EMERGENCY CONTACT: The who-to-call part of the Emergency Sheet, kept on this device so exports
+ * (GPX waypoints) can carry it. Medical details and trip specifics are deliberately not stored.
+ */
+
+const STORAGE_KEY = 'trailsense_emergency_contact';
+
+export type SavedEmergencyContact = Pick<EmergencyContactData, 'fullName' | 'phone' | 'contactName' | 'contactRelationship' | 'contactPhone' | 'plbInfo'>;
+
+export const loadEmergencyContact = (): SavedEmergencyContact | null => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveEmergencyContact = (data: EmergencyContactData) => {
+  const { fullName, phone, contactName, contactRelationship, contactPhone, plbInfo } = data;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ fullName, phone, contactName, contactRelationship, contactPhone, plbInfo }));
+};
+
+// One line for waypoint descriptions, e.g. "Contact: Sam (sister) 555-0100; Hiker: Alex 555-0199; PLB: inReach"
+export const summarizeEmergencyContact = (contact: SavedEmergencyContact | null): string => {
+  if (!contact) return 'No emergency contact saved (fill in the Emergency Sheet).';
+  const person = (name: string, extra: string, phone: string) => [name, extra && `(${extra})`, phone].filter(Boolean).join(' ');
+  const parts = [
+    (contact.contactName || contact.contactPhone) && `Contact: ${person(contact.contactName, contact.contactRelationship, contact.contactPhone)}`,
+    (contact.fullName || contact.phone) && `Hiker: ${person(contact.fullName, '', contact.phone)}`,
+    contact.plbInfo && `PLB: ${contact.plbInfo}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join('; ') : 'No emergency contact saved (fill in the Emergency Sheet).';
+};
@@ -0,0 +1,116 @@
+import { GearCategory, GearItem, HikeDetails, PackWeights } from '../types';
+
+/**
+ * GEAR CLOSET: The user's own kit with real weights, kept on this device, plus a pack list per trip.
+ * Pack weight and the UL score come from the list when there is one, instead of the distance/weather estimate.
+ */
+
+const CLOSET_KEY = 'trailsense_gear_closet';
+const PACK_LISTS_KEY = 'trailsense_pack_lists';
+
+export const GEAR_CATEGORIES: GearCategory[] = ['pack', 'shelter', 'clothing', 'water', 'food', 'navigation', 'safety', 'electronics', 'cooking', 'other'];
+
+const readJson = <T,>(key: string, fallback: T): T => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export const loadGearCloset = (): GearItem[] => readJson<GearItem[]>(CLOSET_KEY, []);
+
+export const saveGearCloset = (items: GearItem[]) => {
+  localStorage.setItem(CLOSET_KEY, JSON.stringify(items));
+};
+
+// One pack list per trail and date
+export const packListKey = (hike: HikeDetails) => `${hike.trailName.trim().toLowerCase()}|${hike.date}`;
+
+export const loadPackList = (key: string): string[] | null => readJson<Record<string, string[]>>(PACK_LISTS_KEY, {})[key] ?? null;
+
+export const savePackList = (key: string, itemIds: string[] | null) => {
+  const lists = readJson<Record<string, string[]>>(PACK_LISTS_KEY, {});
+  if (itemIds) lists[key] = itemIds;
+  else delete lists[key];
+  localStorage.setItem(PACK_LISTS_KEY, JSON.stringify(lists));
+};
+
+export const newGearId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+const kg = (grams: number) => parseFloat((grams / 1000).toFixed(2));
+
+export const packWeights = (closet: GearItem[], itemIds: string[]): PackWeights => {
+  const items = closet.filter(item => itemIds.includes(item.id));
+  const sum = (match: (item: GearItem) => boolean) => items.filter(match).reduce((total, item) => total + item.weightG, 0);
+  const base = sum(item => !item.worn && !item.consumable);
+  const consumable = sum(item => !item.worn && !!item.consumable);
+  return {
+    baseKg: kg(base),
+    wornKg: kg(sum(item => !!item.worn)),
+    consumableKg: kg(consumable),
+    carriedKg: kg(base + consumable),
+    itemCount: items.length,
+  };
+};
+
+// Carried weight of the trip's saved pack list, for scoring; undefined when there's no list yet
+export const savedPackWeight = (hike: HikeDetails): number | undefined => {
+  const ids = loadPackList(packListKey(hike));
+  if (!ids || ids.length === 0) return undefined;
+  const weights = packWeights(loadGearCloset(), ids);
+  return weights.itemCount > 0 ? weights.carriedKg : undefined;
+};
+
+// Day-hike base weight scale: 100 at 2 kg or less, down to 30 at 9 kg and over
+export const packULScore = (weights: PackWeights): number =>
+  Math.round(Math.max(30, Math.min(100, 100 - ((weights.baseKg - 2) / 7) * 70)));
+
+const STOP_WORDS = new Set(['and', 'the', 'for', 'with', 'extra', 'spare', 'small', 'large', 'light', 'lightweight']);
+
+const words = (name: string) =>
+  name.toLowerCase().replace(/\(.*?\)/g, ' ').split(/[^a-z0-9]+/).filter(w => w.length >= 3 && !STOP_WORDS.has(w));
+
+/**
+ * Closet items matching the report's packing list: an item matches an entry when it shares at least half
+ * the entry's words ("Water filter" ~ "Sawyer Squeeze filter"). The pack itself always goes in.
+ * `missing` are entries nothing in the closet matched.
+ */
+export const suggestPackList = (closet: GearItem[], gearList: string[]): { itemIds: string[]; missing: string[] } => {
+  const itemIds = new Set(closet.filter(item => item.category === 'pack').map(item => item.id));
+  const missing: string[] = [];
+  gearList.forEach(entry => {
+    const wanted = words(entry);
+    const matches = closet.filter(item => {
+      const have = words(item.name);
+      return wanted.length > 0 && wanted.filter(w => have.includes(w)).length / wanted.length >= 0.5;
+    });
+    if (matches.length === 0) missing.push(entry);
+    matches.forEach(item => itemIds.add(item.id));
+  });
+  return { itemIds: [...itemIds], missing };
+};
+
+const CATEGORY_WORDS: [GearCategory, string[]][] = [
+  ['pack', ['pack', 'backpack', 'daypack']],
+  ['shelter', ['tent', 'tarp', 'bivy', 'shelter']],
+  ['water', ['water', 'filter', 'bottle', 'bladder', 'purification']],
+  ['food', ['food', 'snack', 'snacks', 'lunch', 'bar', 'bars', 'electrolyte']],
+  ['navigation', ['map', 'compass', 'gps']],
+  ['safety', ['first', 'aid', 'whistle', 'beacon', 'plb', 'blanket', 'knife', 'fire']],
+  ['electronics', ['headlamp', 'battery', 'batteries', 'phone', 'charger', 'power']],
+  ['cooking', ['stove', 'pot', 'fuel', 'mug']],
+  ['clothing', ['jacket', 'shell', 'layer', 'fleece', 'hat', 'gloves', 'boots', 'shoes', 'socks', 'pants', 'shirt']],
+];
+
+// Best guess for a quick-add from the report's list; the user can change it
+export const guessGearCategory = (name: string): Pick<GearItem, 'category' | 'consumable' | 'worn'> => {
+  const w = words(name);
+  const category = CATEGORY_WORDS.find(([, keys]) => keys.some(k => w.includes(k)))?.[0] ?? 'other';
+  return {
+    category,
+    consumable: category === 'food' || w.some(x => ['fuel', 'sunscreen'].includes(x)) || undefined,
+    worn: w.some(x => ['boots', 'shoes', 'socks'].includes(x)) || undefined,
+  };
+};
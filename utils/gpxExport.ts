@@ -0,0 +1,107 @@
+import { LatLng, PacePlan, RouteTrack, TrackPoint, TripData, TripReportSummary } from '../types';
+
+/**
+ * GPX EXPORT: The planned hike as a GPX 1.1 file for a phone or GPS unit. The track comes from the
+ * imported route when there is one; waypoints mark the trailhead, the turnaround and the planned finish,
+ * each carrying the verdict, main risk and emergency contact so they travel with the device.
+ */
+
+export interface GpxPlan {
+  trailName: string;
+  date: string;
+  startTime: string; // "HH:MM"
+  data: TripData;
+  pace: PacePlan;
+  summary: TripReportSummary;
+  track?: RouteTrack | null;
+  emergency: string; // One-line contact summary
+}
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+// Position (and elevation) `km` along the track, interpolated between stored points
+const pointAtKm = (points: TrackPoint[], km: number): TrackPoint => {
+  const i = points.findIndex(p => p.km >= km);
+  if (i === -1) return points[points.length - 1];
+  if (i === 0) return points[0];
+  const a = points[i - 1];
+  const b = points[i];
+  const t = b.km > a.km ? (km - a.km) / (b.km - a.km) : 0;
+  const ele = a.ele !== undefined && b.ele !== undefined ? a.ele + (b.ele - a.ele) * t : undefined;
+  return { lat: a.lat + (b.lat - a.lat) * t, lng: a.lng + (b.lng - a.lng) * t, ele, km };
+};
+
+const waypoint = (at: LatLng & { ele?: number }, name: string, cmt: string, desc: string, sym: string): string =>
+  [
+    `  <wpt lat="${at.lat.toFixed(6)}" lon="${at.lng.toFixed(6)}">`,
+    at.ele !== undefined ? `    <ele>${at.ele.toFixed(1)}</ele>` : '',
+    `    <name>${escapeXml(name)}</name>`,
+    `    <cmt>${escapeXml(cmt)}</cmt>`,
+    `    <desc>${escapeXml(desc)}</desc>`,
+    `    <sym>${sym}</sym>`,
+    `  </wpt>`,
+  ].filter(Boolean).join('\n');
+
+/**
+ * Builds the GPX document, or null when there's nowhere to put a waypoint (no track and no trailhead).
+ * Without a track the turnaround has no known position, so its time goes on the trailhead waypoint instead.
+ */
+export const buildPlanGpx = (plan: GpxPlan): string | null => {
+  const { data, pace, summary, track } = plan;
+  const points = track?.points ?? [];
+  const hasTrack = points.length >= 2;
+  if (!hasTrack && !data.trailhead) return null;
+
+  const briefing = `Verdict: ${summary.verdict}\nMain risk: ${summary.riskFactor}\nEmergency: ${plan.emergency}`;
+  const turnaroundCmt = `Turn around by ${pace.turnaround} at km ${pace.turnaroundKm.toFixed(1)}`;
+  const finishCmt = `Planned finish ${pace.finish} (${data.distanceKm} km)`;
+
+  const waypoints: string[] = [];
+  if (hasTrack) {
+    // Pace plan distances are in report km; the track may measure slightly differently
+    const scale = data.distanceKm > 0 ? points[points.length - 1].km / data.distanceKm : 1;
+    waypoints.push(
+      waypoint(points[0], `Trailhead ${plan.startTime}`, `Start ${plan.startTime}`, briefing, 'Trailhead'),
+      waypoint(pointAtKm(points, pace.turnaroundKm * scale), `Turnaround ${pace.turnaround}`, turnaroundCmt, briefing, 'Flag, Red'),
+      waypoint(points[points.length - 1], `Finish ${pace.finish}`, finishCmt, briefing, 'Flag, Green'),
+    );
+  } else {
+    waypoints.push(
+      waypoint(data.trailhead, `Trailhead ${plan.startTime}`, `Start ${plan.startTime}. ${turnaroundCmt}`, briefing, 'Trailhead'),
+      waypoint(data.trailhead, `Finish ${pace.finish}`, `${finishCmt}, back at the trailhead`, briefing, 'Flag, Green'),
+    );
+  }
+
+  const trk = hasTrack
+    ? [
+        '  <trk>',
+        `    <name>${escapeXml(track.name || plan.trailName)}</name>`,
+        '    <trkseg>',
+        ...points.map(p => p.ele !== undefined
+          ? `      <trkpt lat="${p.lat.toFixed(6)}" lon="${p.lng.toFixed(6)}"><ele>${p.ele.toFixed(1)}</ele></trkpt>`
+          : `      <trkpt lat="${p.lat.toFixed(6)}" lon="${p.lng.toFixed(6)}"/>`),
+        '    </trkseg>',
+        '  </trk>',
+      ].join('\n')
+    : '';
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="TrailSense" xmlns="http://www.topografix.com/GPX/1/1">',
+    '  <metadata>',
+    `    <name>${escapeXml(`${plan.trailName} — ${plan.date}`)}</name>`,
+    `    <desc>${escapeXml(`Start ${plan.startTime}, turnaround ${pace.turnaround}, finish ${pace.finish}. ${summary.verdict}`)}</desc>`,
+    `    <time>${new Date().toISOString()}</time>`,
+    '  </metadata>',
+    ...waypoints,
+    trk,
+    '</gpx>',
+  ].filter(Boolean).join('\n') + '\n';
+};
+
+// File name from the trail and date, e.g. "mount-tam-2026-06-21.gpx"
+export const gpxFileName = (trailName: string, date: string): string => {
+  const slug = trailName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'hike';
+  return `${slug}-${date}.gpx`;
+};
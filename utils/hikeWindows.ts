@@ -0,0 +1,119 @@
+import { HikingWindow, TripData, UserProfile } from '../types';
+import { calculateRiskAnalysis } from './riskUtils';
+import { buildPacePlan, toMinutes } from './pace';
+import { calculateSolarTimes } from './solar';
+import { isDefaulted, withProvenance } from './provenance';
+import { exposureMinutes, hoursBetween } from './weather';
+
+/**
+ * WINDOW OPTIMIZER: Sweeps start times on the chosen date and the following days through the risk engine
+ * and ranks the safest windows across them, a couple per day at most. The report's forecast only covers the chosen date, so other days
+ * score their weather and temperature as unknown rather than borrowing today's. On the chosen date an hourly
+ * forecast, when there is one, decides which start times dodge the heat and the storms.
+ */
+
+const EARLIEST_START = 5 * 60;
+const LATEST_START = 15 * 60;
+const STEP_MINUTES = 30;
+const DAYS_AHEAD = 4;
+const MAX_WINDOWS = 5;
+const MAX_PER_DAY = 2;
+const MIN_GAP_MINUTES = 120; // A second window on the same day has to be a real alternative, not the next half hour
+
+// Typical daily peaks: midday heat, and afternoon convective storms
+const HEAT_WINDOW = { start: 12 * 60, end: 16 * 60 };
+const STORM_WINDOW = { start: 12 * 60, end: 18 * 60 };
+const HOT_TEMP_C = 27; // Matches the default heat rule
+const STORM_THUNDER_PCT = 30; // Matches the default thunder rule
+
+const addDays = (date: string, days: number): string => {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().slice(0, 10);
+};
+
+const pad = (minutes: number) =>
+  `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+
+const overlap = (start: number, end: number, window: { start: number; end: number }) =>
+  Math.max(0, Math.min(end, window.end) - Math.max(start, window.start));
+
+// Conditions for a date: the report's own for the chosen day, unknown weather for the rest
+const dataForDate = (data: TripData, date: string, isReportDate: boolean): TripData => {
+  let dayData: TripData = { ...data, forecast: data.forecast?.date === date ? data.forecast : undefined };
+  if (!isReportDate) {
+    dayData = withProvenance(dayData, 'weatherCondition', { source: 'default', confidence: 'low', note: 'Forecast not checked for this date.' });
+    dayData = withProvenance(dayData, 'tempC', { source: 'default', confidence: 'low', note: 'Forecast not checked for this date.' });
+  }
+  if (data.trailhead) {
+    const solar = calculateSolarTimes(date, data.trailhead, data.timeZone);
+    dayData = { ...dayData, solar, sunsetTime: solar.sunset ?? dayData.sunsetTime };
+  }
+  return dayData;
+};
+
+// Minutes spent in hot or stormy hours: from the hourly forecast when there is one, else the typical daily peaks
+const exposure = (data: TripData, start: number, finish: number, hot: boolean, stormy: boolean) => {
+  if (data.forecast) {
+    const hours = hoursBetween(data.forecast, start, finish);
+    return {
+      heatExposureMinutes: Math.round(exposureMinutes(hours, start, finish, h => h.tempC >= HOT_TEMP_C)),
+      stormExposureMinutes: Math.round(exposureMinutes(hours, start, finish, h => (h.thunderPct ?? 0) >= STORM_THUNDER_PCT)),
+    };
+  }
+  return {
+    heatExposureMinutes: hot ? Math.round(overlap(start, finish, HEAT_WINDOW)) : 0,
+    stormExposureMinutes: stormy ? Math.round(overlap(start, finish, STORM_WINDOW)) : 0,
+  };
+};
+
+// Lowest risk first, then least heat/storm exposure, then the most daylight left at the finish
+const compareWindows = (a: HikingWindow, b: HikingWindow): number =>
+  a.risk.score - b.risk.score
+  || (a.heatExposureMinutes + a.stormExposureMinutes) - (b.heatExposureMinutes + b.stormExposureMinutes)
+  || Number(b.forecastChecked) - Number(a.forecastChecked)
+  || (b.minutesBeforeSunset ?? 0) - (a.minutesBeforeSunset ?? 0);
+
+// `packWeight` is the carried weight the headline risk was scored with, so both agree for the same start
+export const findHikingWindows = (user: UserProfile, data: TripData, date: string, packWeight?: number): HikingWindow[] => {
+  const candidates: HikingWindow[] = [];
+
+  for (let day = 0; day <= DAYS_AHEAD; day++) {
+    const windowDate = addDays(date, day);
+    const dayData = dataForDate(data, windowDate, day === 0);
+    const forecastChecked = day === 0;
+    const sunset = dayData.solar?.sunset ?? (isDefaulted(dayData, 'sunsetTime') ? undefined : dayData.sunsetTime);
+    const civilDawn = dayData.solar?.civilDawn;
+    const hot = !isDefaulted(dayData, 'tempC') && dayData.tempC >= HOT_TEMP_C;
+    const weather = dayData.weatherCondition.toLowerCase();
+    const stormy = !isDefaulted(dayData, 'weatherCondition') && (weather.includes('storm') || weather.includes('thunder'));
+
+    for (let start = EARLIEST_START; start <= LATEST_START; start += STEP_MINUTES) {
+      // Don't suggest starting out in the dark
+      if (civilDawn && start < toMinutes(civilDawn)) continue;
+
+      const startTime = pad(start);
+      const plan = buildPacePlan(dayData, startTime, user.fitness);
+      const finish = start + plan.totalMinutes;
+      candidates.push({
+        date: windowDate,
+        startTime,
+        finish: plan.finish,
+        sunset,
+        minutesBeforeSunset: sunset ? Math.round(toMinutes(sunset) - finish) : undefined,
+        ...exposure(dayData, start, finish, hot, stormy),
+        forecastChecked,
+        risk: calculateRiskAnalysis(user, dayData, startTime, packWeight),
+      });
+    }
+  }
+
+  const windows: HikingWindow[] = [];
+  for (const candidate of candidates.sort(compareWindows)) {
+    const sameDay = windows.filter(w => w.date === candidate.date);
+    if (sameDay.length >= MAX_PER_DAY) continue;
+    if (sameDay.some(w => Math.abs(toMinutes(w.startTime) - toMinutes(candidate.startTime)) < MIN_GAP_MINUTES)) continue;
+    windows.push(candidate);
+    if (windows.length === MAX_WINDOWS) break;
+  }
+  return windows;
+};
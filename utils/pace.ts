@@ -0,0 +1,112 @@
+import { PacePlan, PaceSegment, TripData } from '../types';
+import { isDefaulted } from './provenance';
+
+/**
+ * PACE ENGINE: Segment-by-segment moving time from the elevation profile.
+ * Each segment's speed comes from Tobler's hiking function, so climbs cost more than flats and
+ * gentle descents are quicker than steep ones, then scales by fitness and adds a 10% buffer.
+ */
+
+// Share of Tobler's ~5 km/h flat-trail pace each fitness level sustains with a daypack
+const FITNESS_FACTOR: Record<string, number> = { low: 0.6, medium: 0.8, high: 1.0 };
+const BUFFER = 1.1;
+const MIN_SPEED_KMH = 0.5; // Scrambling floor so near-vertical segments don't blow up
+
+// "HH:MM" -> minutes since midnight
+export const toMinutes = (time: string): number => {
+  const [h, m] = time.split(':').map(n => parseInt(n, 10));
+  return h * 60 + (m || 0);
+};
+
+// Minutes since midnight -> "H:MM" (wraps past midnight)
+export const formatMinutes = (minutes: number): string => {
+  const h = Math.floor(minutes / 60) % 24;
+  const m = Math.floor(minutes % 60);
+  return `${h}:${m.toString().padStart(2, '0')}`;
+};
+
+// Tobler: 6·e^(-3.5·|grade + 0.05|) km/h, fastest on a slight downhill
+const toblerSpeed = (grade: number) => 6 * Math.exp(-3.5 * Math.abs(grade + 0.05));
+
+/**
+ * Relative profile points in metres above the start. The 0-100 profile is scaled so its total ascent
+ * equals elevationM; without a profile the route is treated as a symmetric out-and-back.
+ */
+export const profileMetres = (data: TripData): number[] => {
+  const profile = data.elevationProfile || [];
+  if (profile.length < 2 || isDefaulted(data, 'elevationProfile')) return [0, data.elevationM, 0];
+
+  const ascent = profile.slice(1).reduce((sum, p, i) => sum + Math.max(0, p - profile[i]), 0);
+  const scale = ascent > 0 ? data.elevationM / ascent : 0;
+  return profile.map(p => (p - profile[0]) * scale);
+};
+
+// The return leg starts at the high point; for routes that top out at either end, halfway by distance
+const turnaroundIndex = (points: number[]): number => {
+  const last = points.length - 1;
+  const high = Math.max(...points);
+  const candidates = points.map((p, i) => (p === high ? i : -1)).filter(i => i > 0 && i < last);
+  if (candidates.length === 0) return Math.round(last / 2);
+  return candidates.reduce((best, i) => (Math.abs(i - last / 2) < Math.abs(best - last / 2) ? i : best));
+};
+
+export const buildPacePlan = (data: TripData, startTime: string, fitness: string): PacePlan => {
+  const points = profileMetres(data);
+  const segmentKm = data.distanceKm / (points.length - 1);
+  const factor = FITNESS_FACTOR[fitness] ?? FITNESS_FACTOR.medium;
+  const start = toMinutes(startTime);
+
+  let elapsed = 0;
+  const segments: PaceSegment[] = points.slice(1).map((to, i) => {
+    const delta = to - points[i];
+    const grade = segmentKm > 0 ? delta / (segmentKm * 1000) : 0;
+    const speed = Math.max(MIN_SPEED_KMH, toblerSpeed(grade) * factor);
+    const minutes = (segmentKm / speed) * 60 * BUFFER;
+    elapsed += minutes;
+    return {
+      fromKm: segmentKm * i,
+      toKm: segmentKm * (i + 1),
+      ascentM: Math.max(0, delta),
+      descentM: Math.max(0, -delta),
+      minutes,
+      eta: formatMinutes(start + elapsed),
+    };
+  });
+
+  const turnaroundAt = turnaroundIndex(points);
+  const outboundMinutes = segments.slice(0, turnaroundAt).reduce((sum, s) => sum + s.minutes, 0);
+
+  return {
+    segments,
+    turnaroundKm: segmentKm * turnaroundAt,
+    turnaround: formatMinutes(start + outboundMinutes),
+    finish: formatMinutes(start + elapsed),
+    outboundMinutes,
+    returnMinutes: elapsed - outboundMinutes,
+    totalMinutes: elapsed,
+  };
+};
+
+// Distance along the route at a clock time ("HH:MM"), or null if the hike isn't under way then
+export const kmAtTime = (plan: PacePlan, startTime: string, time: string): number | null => {
+  let elapsed = toMinutes(time) - toMinutes(startTime);
+  if (elapsed < 0 || elapsed > plan.totalMinutes) return null;
+  for (const seg of plan.segments) {
+    if (elapsed <= seg.minutes) return seg.fromKm + (seg.toKm - seg.fromKm) * (seg.minutes > 0 ? elapsed / seg.minutes : 0);
+    elapsed -= seg.minutes;
+  }
+  return null;
+};
+
+// Minutes after the start at which the plan reaches `km`
+export const minutesAtKm = (plan: PacePlan, km: number): number => {
+  let elapsed = 0;
+  for (const seg of plan.segments) {
+    if (km <= seg.toKm) {
+      const span = seg.toKm - seg.fromKm;
+      return elapsed + seg.minutes * (span > 0 ? Math.max(0, km - seg.fromKm) / span : 0);
+    }
+    elapsed += seg.minutes;
+  }
+  return elapsed;
+};
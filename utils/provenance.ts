@@ -0,0 +1,59 @@
+import { TripData, TripDataField, FieldProvenance, HikeDetails } from '../types';
+
+// Reports saved before provenance existed: we know the model produced them, not whether it was grounded.
+const LEGACY_PROVENANCE: FieldProvenance = { source: 'grounded', confidence: 'medium' };
+
+export const getProvenance = (data: TripData, field: TripDataField): FieldProvenance =>
+  data.provenance?.[field] ?? LEGACY_PROVENANCE;
+
+export const isDefaulted = (data: TripData, field: TripDataField): boolean =>
+  getProvenance(data, field).source === 'default';
+
+// Anything we'd hesitate to state as fact: defaults, or low-confidence guesses.
+export const isUnverified = (data: TripData, field: TripDataField): boolean => {
+  const p = getProvenance(data, field);
+  return p.source === 'default' || p.confidence === 'low';
+};
+
+export const withProvenance = (
+  data: TripData,
+  field: TripDataField,
+  provenance: FieldProvenance
+): TripData => ({
+  ...data,
+  provenance: { ...data.provenance, [field]: provenance },
+});
+
+export const describeProvenance = (p: FieldProvenance): string => {
+  const source = {
+    grounded: 'From AI with search/maps',
+    user: 'Entered by you',
+    computed: 'Calculated locally',
+    default: 'Placeholder — not found',
+  }[p.source];
+  return `${source} (${p.confidence} confidence)${p.note ? `. ${p.note}` : ''}`;
+};
+
+/**
+ * Fills gaps in model data with what the user typed into the planner form.
+ * Model values win when both exist, except remoteness: signal and crowds are local knowledge the user has and search often doesn't.
+ */
+export const applyUserInputs = (data: TripData, hike: HikeDetails): TripData => {
+  let next = data;
+  if (hike.distanceKm && hike.distanceKm > 0 && isDefaulted(data, 'distanceKm')) {
+    next = withProvenance(
+      { ...next, distanceKm: hike.distanceKm },
+      'distanceKm',
+      { source: 'user', confidence: 'high' }
+    );
+  }
+  const entered = Object.fromEntries(Object.entries(hike.remoteness || {}).filter(([, v]) => v !== undefined && v !== ''));
+  if (Object.keys(entered).length > 0) {
+    next = withProvenance(
+      { ...next, remoteness: { ...next.remoteness, ...entered } },
+      'remoteness',
+      { source: 'user', confidence: 'high', note: next.remoteness ? 'Your entries replace parts of the AI answer.' : undefined }
+    );
+  }
+  return next;
+};
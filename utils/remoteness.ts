@@ -0,0 +1,67 @@
+import { CellCoverage, FootTraffic, PacePlan, RemotenessAssessment, RemotenessGrade, TripData } from '../types';
+import { isDefaulted } from './provenance';
+
+/**
+ * REMOTENESS: How long it would take to walk out to a road, whether you could call for help on the way,
+ * and whether anyone else is likely to come by. The further all three stack up, the longer a twisted ankle
+ * turns into a night out.
+ */
+
+export const REMOTENESS_GRADES: RemotenessGrade[] = ['none', 'low', 'moderate', 'high'];
+
+// Points toward the grade: hours from a road, missing signal, and empty trails
+const HOURS_STEPS = [2, 4];
+const COVERAGE_POINTS: Record<CellCoverage, number> = { good: 0, patchy: 1, none: 2 };
+const TRAFFIC_POINTS: Record<FootTraffic, number> = { high: 0, moderate: 0, low: 1 };
+const GRADE_MIN_POINTS = { low: 1, moderate: 2, high: 4 };
+
+/**
+ * Null when neither the report nor the route says how far out the hike goes.
+ * Without a reported distance from a road, the turnaround is taken as the farthest point from the trailhead.
+ */
+export const assessRemoteness = (data: TripData, plan: PacePlan): RemotenessAssessment | null => {
+  const { maxKmFromRoad, cellCoverage, footTraffic } = data.remoteness || {};
+  const knownRoute = !isDefaulted(data, 'distanceKm') && data.distanceKm > 0 && plan.totalMinutes > 0;
+
+  let kmFromRoad: number;
+  let hoursFromRoad: number;
+  let kmSource: RemotenessAssessment['kmSource'];
+  if (maxKmFromRoad !== undefined && knownRoute) {
+    kmFromRoad = maxKmFromRoad;
+    hoursFromRoad = maxKmFromRoad / (data.distanceKm / (plan.totalMinutes / 60));
+    kmSource = 'reported';
+  } else if (maxKmFromRoad !== undefined) {
+    kmFromRoad = maxKmFromRoad;
+    hoursFromRoad = maxKmFromRoad / 4; // Flat walking pace when there's no plan to go by
+    kmSource = 'reported';
+  } else if (knownRoute) {
+    kmFromRoad = plan.turnaroundKm;
+    hoursFromRoad = plan.returnMinutes / 60;
+    kmSource = 'route';
+  } else {
+    return null;
+  }
+
+  const points = HOURS_STEPS.filter(h => hoursFromRoad >= h).length
+    + (cellCoverage ? COVERAGE_POINTS[cellCoverage] : 0)
+    + (footTraffic ? TRAFFIC_POINTS[footTraffic] : 0);
+  const grade: RemotenessGrade = points >= GRADE_MIN_POINTS.high ? 'high'
+    : points >= GRADE_MIN_POINTS.moderate ? 'moderate'
+    : points >= GRADE_MIN_POINTS.low ? 'low'
+    : 'none';
+
+  // A beacon earns its weight when you can't phone and help is far, or on any high-grade trip
+  const recommendPlb = grade === 'high' || (grade === 'moderate' && cellCoverage !== undefined && cellCoverage !== 'good');
+
+  return { kmFromRoad, kmSource, hoursFromRoad, cellCoverage, footTraffic, grade, recommendPlb };
+};
+
+// Short phrases for what makes the trip remote besides distance, e.g. ["no cell signal", "few other hikers"]
+export const remotenessNotes = (r: RemotenessAssessment): string[] => [
+  r.cellCoverage === 'none' ? 'no cell signal' : r.cellCoverage === 'patchy' ? 'patchy cell signal' : '',
+  r.footTraffic === 'low' ? 'few other hikers' : '',
+].filter(Boolean);
+
+// Prefill for the emergency sheet's PLB field
+export const plbRecommendation = (r: RemotenessAssessment): string =>
+  `PLB recommended (${[`${r.hoursFromRoad.toFixed(1)} h from a road`, ...remotenessNotes(r)].join(', ')}). Model & HEX ID: `;
@@ -0,0 +1,348 @@
+import { RiskRuleSet } from '../types';
+
+/**
+ * DEFAULT RISK RULES: Every threshold behind the risk score and the warning chips.
+ * Plain data so a region or organization can ship its own set (same shape, new version) without touching the engine.
+ * Bump `version` whenever a threshold or point value changes; saved analyses record the version they were scored with.
+ */
+export const DEFAULT_RISK_RULES: RiskRuleSet = {
+  version: '1.7.1',
+  levels: [
+    { level: 'High', minScore: 7, color: 'bg-red-600' },
+    { level: 'Elevated', minScore: 5, color: 'bg-orange-500' },
+    { level: 'Moderate', minScore: 3, color: 'bg-amber-400' },
+    { level: 'Low', minScore: 0, color: 'bg-forest-500' },
+  ],
+  rules: [
+    // Distance vs experience (comfort limits 5 / 12 / 20 km)
+    {
+      id: 'distance-far-over',
+      group: 'distance',
+      when: [{ metric: 'distanceKm', op: '>', value: { byExperience: { Beginner: 7.5, Intermediate: 18, Advanced: 30 } } }],
+      factor: { name: 'Distance', score: 2, description: 'Significantly longer than recommended for {experience} level.' },
+    },
+    {
+      id: 'distance-over',
+      group: 'distance',
+      when: [{ metric: 'distanceKm', op: '>', value: { byExperience: { Beginner: 5, Intermediate: 12, Advanced: 20 } } }],
+      factor: { name: 'Distance', score: 1, description: 'At the upper end of comfort range for {experience}.' },
+    },
+
+    // Elevation gain vs fitness (comfort limits 300 / 800 / 1500 m)
+    {
+      id: 'elevation-far-over',
+      group: 'elevation',
+      when: [{ metric: 'elevationM', op: '>', value: { byFitness: { low: 450, medium: 1200, high: 2250 } } }],
+      factor: { name: 'Elevation', score: 2, description: 'Very steep climb for current fitness level.' },
+    },
+    {
+      id: 'elevation-over',
+      group: 'elevation',
+      when: [{ metric: 'elevationM', op: '>', value: { byFitness: { low: 300, medium: 800, high: 1500 } } }],
+      factor: { name: 'Elevation', score: 1, description: 'Significant elevation gain.' },
+    },
+
+    // Daylight: estimated finish vs sunset, or a start-hour heuristic when sunset is unknown
+    {
+      id: 'daylight-after-dark',
+      group: 'daylight',
+      when: [{ metric: 'minutesPastCivilDusk', op: '>', value: 0 }],
+      factor: { name: 'Daylight', score: 2, description: 'Estimated finish {finish} is after dark (civil dusk {civilDusk}). Start earlier or carry a headlamp.' },
+      chip: { type: 'Late', label: 'Finish After Dark', severity: 'red' },
+    },
+    {
+      id: 'daylight-after-sunset',
+      group: 'daylight',
+      when: [{ metric: 'minutesPastSunset', op: '>', value: 0 }],
+      factor: { name: 'Daylight', score: 1, description: 'Estimated finish {finish} is after sunset ({sunset}); the last stretch will be in twilight.' },
+      chip: { type: 'Late', label: 'Finish After Sunset', severity: 'orange' },
+    },
+    {
+      id: 'late-start-long',
+      group: 'daylight',
+      when: [
+        { metric: 'minutesPastSunset', op: 'missing' },
+        { metric: 'startHour', op: '>=', value: 14 },
+        { metric: 'distanceKm', op: '>', value: 5 },
+      ],
+      factor: { name: 'Timing', score: 2, description: 'Late start creates risk of hiking in the dark.' },
+      chip: { type: 'Late', label: 'Late Start', severity: 'orange' },
+    },
+    {
+      id: 'late-start',
+      group: 'daylight',
+      when: [
+        { metric: 'minutesPastSunset', op: 'missing' },
+        { metric: 'startHour', op: '>=', value: 14 },
+      ],
+      factor: { name: 'Timing', score: 1, description: 'Late start; watch sunset times.' },
+    },
+
+    // Weather: hourly forecast peaks while on the trail first, then keywords in the conditions text.
+    // Thunder is weighed against when you're on exposed ground (above treeline or near the high point);
+    // the flat thunder penalty is only the fallback for when the route's exposure can't be worked out.
+    {
+      id: 'weather-thunder-exposed',
+      group: 'weather',
+      when: [{ metric: 'exposedThunderPct', op: '>=', value: 30 }],
+      factor: { name: 'Weather', score: 2, description: '{exposedThunder}% chance of thunder while you\'re on exposed ground {exposureWindow}. Be off the summit by {offSummitBy}.' },
+      chip: { type: 'Storm', label: 'Exposed {exposureWindow}: thunder {exposedThunder}%', severity: 'red' },
+    },
+    {
+      id: 'weather-thunder-sheltered',
+      group: 'weather',
+      when: [
+        { metric: 'exposedMinutes', op: '>', value: 0 },
+        { metric: 'maxThunderPct', op: '>=', value: 30 },
+      ],
+      factor: { name: 'Weather', score: 1, description: '{thunder}% chance of thunder around {thunderTime}, but not while you\'re on exposed ground {exposureWindow}. Be off the summit by {offSummitBy}.' },
+      chip: { type: 'Storm', label: 'Thunder {thunder}% at {thunderTime}', severity: 'orange' },
+    },
+    {
+      id: 'weather-thunder-unexposed',
+      group: 'weather',
+      when: [
+        { metric: 'exposedMinutes', op: '<=', value: 0 },
+        { metric: 'maxThunderPct', op: '>=', value: 30 },
+      ],
+      factor: { name: 'Weather', score: 1, description: '{thunder}% chance of thunder around {thunderTime}; the route stays off exposed ground.' },
+      chip: { type: 'Storm', label: 'Thunder {thunder}% at {thunderTime}', severity: 'orange' },
+    },
+    {
+      id: 'weather-storm-exposed',
+      group: 'weather',
+      when: [
+        { metric: 'weather', op: 'includesAny', value: ['storm', 'thunder'] },
+        { metric: 'exposedMinutes', op: '>', value: 0 },
+      ],
+      factor: { name: 'Weather', score: 2, description: 'Storms reported and you\'re on exposed ground {exposureWindow}. Be off the summit by {offSummitBy}.' },
+      chip: { type: 'Storm', label: 'Storm Risk: exposed {exposureWindow}', severity: 'red' },
+    },
+    {
+      id: 'weather-thunder',
+      group: 'weather',
+      when: [
+        { metric: 'exposedMinutes', op: 'missing' },
+        { metric: 'maxThunderPct', op: '>=', value: 30 },
+      ],
+      factor: { name: 'Weather', score: 2, description: '{thunder}% chance of thunder around {thunderTime} while you\'re out.' },
+      chip: { type: 'Storm', label: 'Thunder {thunder}% at {thunderTime}', severity: 'red' },
+    },
+    {
+      id: 'weather-storm',
+      group: 'weather',
+      when: [{ metric: 'weather', op: 'includesAny', value: ['storm', 'thunder'] }],
+      factor: { name: 'Weather', score: 2, description: 'Hazardous weather conditions reported.' },
+      chip: { type: 'Storm', label: 'Storm Risk', severity: 'red' },
+    },
+    {
+      id: 'weather-snow',
+      group: 'weather',
+      when: [{ metric: 'weather', op: 'includesAny', value: ['snow', 'blizzard'] }],
+      factor: { name: 'Weather', score: 2, description: 'Hazardous weather conditions reported.' },
+    },
+    {
+      id: 'weather-gale',
+      group: 'weather',
+      when: [{ metric: 'maxGustKph', op: '>=', value: 60 }],
+      factor: { name: 'Weather', score: 2, description: 'Gusts to {gust} km/h around {gustTime}; hard to stay upright on exposed ground.' },
+    },
+    {
+      id: 'weather-rain-likely',
+      group: 'weather',
+      when: [{ metric: 'maxPrecipPct', op: '>=', value: 60 }],
+      factor: { name: 'Weather', score: 1, description: '{precip}% chance of rain around {precipTime}; trail may be slippery.' },
+    },
+    {
+      id: 'weather-gusty',
+      group: 'weather',
+      when: [{ metric: 'maxGustKph', op: '>=', value: 40 }],
+      factor: { name: 'Weather', score: 1, description: 'Gusts to {gust} km/h around {gustTime}.' },
+    },
+    {
+      id: 'weather-low-visibility',
+      group: 'weather',
+      when: [{ metric: 'minVisibilityKm', op: '<', value: 1 }],
+      factor: { name: 'Weather', score: 1, description: 'Visibility down to {visibility} km around {visibilityTime}; easy to lose the trail.' },
+    },
+    {
+      id: 'weather-wet',
+      group: 'weather',
+      when: [{ metric: 'weather', op: 'includesAny', value: ['rain', 'wind', 'fog'] }],
+      factor: { name: 'Weather', score: 1, description: 'Weather may make trail slippery or reduce visibility.' },
+    },
+
+    // Altitude: high point, how fast you climb to it, and whether you've been up high lately (utils/altitude.ts)
+    {
+      id: 'altitude-high',
+      group: 'altitude',
+      when: [{ metric: 'altitudeRisk', op: '>=', value: 3 }],
+      factor: { name: 'Altitude', score: 2, description: 'Tops out at {highPoint} m{climbRate}, {acclimatization}. Altitude sickness is likely; turn back at the first headache, nausea or dizziness.' },
+      chip: { type: 'Altitude', label: 'Altitude {highPoint} m', severity: 'red' },
+    },
+    {
+      id: 'altitude-moderate',
+      group: 'altitude',
+      when: [{ metric: 'altitudeRisk', op: '>=', value: 2 }],
+      factor: { name: 'Altitude', score: 1, description: 'Tops out at {highPoint} m{climbRate}, {acclimatization}. Altitude sickness is possible; go slow and descend if symptoms build.' },
+      chip: { type: 'Altitude', label: 'Altitude {highPoint} m', severity: 'orange' },
+    },
+    {
+      id: 'altitude-low',
+      group: 'altitude',
+      when: [{ metric: 'altitudeRisk', op: '>=', value: 1 }],
+      chip: { type: 'Altitude', label: 'Altitude {highPoint} m', severity: 'yellow' },
+    },
+
+    // Remoteness: hours to walk out to a road, cell signal and other hikers, weighed by experience (utils/remoteness.ts)
+    {
+      id: 'remote-far-over',
+      group: 'remoteness',
+      when: [{ metric: 'remoteness', op: '>=', value: { byExperience: { Beginner: 2, Intermediate: 3, Advanced: 4 } } }],
+      factor: { name: 'Remoteness', score: 2, description: 'Up to {hoursFromRoad} h ({kmFromRoad} km) from a road{remoteNotes}. Self-rescue territory for {experience} hikers; carry a PLB and leave a trip plan.' },
+      chip: { type: 'Remote', label: 'Remote: {hoursFromRoad} h from a road', severity: 'red' },
+    },
+    {
+      id: 'remote-over',
+      group: 'remoteness',
+      when: [{ metric: 'remoteness', op: '>=', value: { byExperience: { Beginner: 1, Intermediate: 2, Advanced: 3 } } }],
+      factor: { name: 'Remoteness', score: 1, description: 'Up to {hoursFromRoad} h ({kmFromRoad} km) from a road{remoteNotes}. Help is slow to arrive; leave a trip plan with someone.' },
+      chip: { type: 'Remote', label: 'Remote: {hoursFromRoad} h from a road', severity: 'orange' },
+    },
+    {
+      id: 'remote',
+      group: 'remoteness',
+      when: [{ metric: 'remoteness', op: '>=', value: 2 }],
+      chip: { type: 'Remote', label: 'Remote: {hoursFromRoad} h from a road', severity: 'yellow' },
+    },
+
+    // Temperature: heat index and wind chill on the trail, graded for effort (utils/thermalStress.ts)
+    {
+      id: 'heat-extreme',
+      group: 'temperature',
+      when: [{ metric: 'heatStress', op: '>=', value: 3 }],
+      factor: { name: 'Temperature', score: 3, description: 'Heat index {heatIndex}°C{heatIndexWhen} at {exertion} effort. Heat stroke danger: move the start to dawn or pick a shaded route.' },
+      chip: { type: 'Heat', label: 'Heat Index {heatIndex}°C', severity: 'red' },
+    },
+    {
+      id: 'cold-extreme',
+      group: 'temperature',
+      when: [{ metric: 'coldStress', op: '>=', value: 3 }],
+      factor: { name: 'Temperature', score: 3, description: 'Wind chill {windChill}°C{windChillWhen} at {exertion} effort. Frostbite and hypothermia set in fast; full winter layers or postpone.' },
+      chip: { type: 'Cold', label: 'Wind Chill {windChill}°C', severity: 'red' },
+    },
+    {
+      id: 'heat-high',
+      group: 'temperature',
+      when: [{ metric: 'heatStress', op: '>=', value: 2 }],
+      factor: { name: 'Temperature', score: 2, description: 'Heat index {heatIndex}°C{heatIndexWhen} at {exertion} effort. Heat exhaustion risk; extra water, electrolytes and shade breaks.' },
+      chip: { type: 'Heat', label: 'Heat Index {heatIndex}°C', severity: 'red' },
+    },
+    {
+      id: 'cold-high',
+      group: 'temperature',
+      when: [{ metric: 'coldStress', op: '>=', value: 2 }],
+      factor: { name: 'Temperature', score: 2, description: 'Wind chill {windChill}°C{windChillWhen} at {exertion} effort. Hypothermia risk, worse if you get wet; pack a warm layer and a shell.' },
+      chip: { type: 'Cold', label: 'Wind Chill {windChill}°C', severity: 'red' },
+    },
+    {
+      id: 'heat-caution',
+      group: 'temperature',
+      when: [{ metric: 'heatStress', op: '>=', value: 1 }],
+      factor: { name: 'Temperature', score: 1, description: 'Heat index {heatIndex}°C{heatIndexWhen} at {exertion} effort. Extra water required.' },
+      chip: { type: 'Heat', label: 'Heat Index {heatIndex}°C', severity: 'orange' },
+    },
+    {
+      id: 'cold-caution',
+      group: 'temperature',
+      when: [{ metric: 'coldStress', op: '>=', value: 1 }],
+      factor: { name: 'Temperature', score: 1, description: 'Wind chill {windChill}°C{windChillWhen} at {exertion} effort. Chilly when you stop; bring a warm layer.' },
+      chip: { type: 'Cold', label: 'Wind Chill {windChill}°C', severity: 'orange' },
+    },
+
+    // Sun exposure (hourly forecasts only)
+    {
+      id: 'uv-very-high',
+      group: 'sun',
+      when: [{ metric: 'maxUvIndex', op: '>=', value: 8 }],
+      factor: { name: 'Sun', score: 1, description: 'UV index {uv} around {uvTime}. Cover up and reapply sunscreen.' },
+    },
+
+    // Pack weight (only scored when a weight is supplied)
+    {
+      id: 'pack-very-heavy',
+      group: 'gear',
+      when: [{ metric: 'packWeightKg', op: '>', value: 15 }],
+      factor: { name: 'Gear', score: 2, description: 'Very heavy pack increases fatigue and injury risk.' },
+    },
+    {
+      id: 'pack-heavy',
+      group: 'gear',
+      when: [{ metric: 'packWeightKg', op: '>', value: 10 }],
+      factor: { name: 'Gear', score: 1, description: 'Heavy pack for a day hike.' },
+    },
+
+    // Terrain: the steepest stretch of the profile, or average gain when the profile shape is unknown
+    {
+      id: 'steep-grade-severe',
+      group: 'terrain',
+      when: [{ metric: 'maxGradePct', op: '>=', value: 25 }],
+      chip: { type: 'Steep', label: 'Very Steep: {steepestGrade}% at km {steepestKm}', severity: 'orange' },
+    },
+    {
+      id: 'steep-grade',
+      group: 'terrain',
+      when: [{ metric: 'maxGradePct', op: '>=', value: 15 }],
+      chip: { type: 'Steep', label: 'Steep: {steepestGrade}% at km {steepestKm}', severity: 'yellow' },
+    },
+    {
+      id: 'steep-average',
+      group: 'terrain',
+      when: [
+        { metric: 'maxGradePct', op: 'missing' },
+        { metric: 'gainPerKm', op: '>', value: 60 },
+      ],
+      chip: { type: 'Steep', label: 'Steep Sections', severity: 'yellow' },
+    },
+
+    // Missing data: placeholders are scored as unknown rather than assumed safe
+    {
+      id: 'uncertainty-most',
+      group: 'uncertainty',
+      when: [{ metric: 'unknownInputCount', op: '>=', value: 3 }],
+      factor: { name: 'Uncertainty', score: 2, description: "Couldn't verify {unknownInputs}; scored as unknown rather than assumed safe." },
+    },
+    {
+      id: 'uncertainty-some',
+      group: 'uncertainty',
+      when: [{ metric: 'unknownInputCount', op: '>=', value: 1 }],
+      factor: { name: 'Uncertainty', score: 1, description: "Couldn't verify {unknownInputs}; scored as unknown rather than assumed safe." },
+    },
+    {
+      id: 'uncertainty-zero-distance',
+      group: 'uncertainty',
+      when: [{ metric: 'distanceKm', op: '<=', value: 0 }],
+      factor: { name: 'Uncertainty', score: 1, description: 'Missing key trail data increases risk.' },
+    },
+    {
+      id: 'uncertainty-zero-elevation',
+      group: 'uncertainty',
+      when: [{ metric: 'elevationM', op: '<=', value: 0 }],
+      factor: { name: 'Uncertainty', score: 1, description: 'Missing key trail data increases risk.' },
+    },
+
+    // Sources that contradict each other (see utils/consistency.ts): scored separately from missing data
+    {
+      id: 'disagreement-several',
+      group: 'consistency',
+      when: [{ metric: 'disagreementCount', op: '>=', value: 2 }],
+      factor: { name: 'Uncertainty', score: 2, description: 'Trail data disagrees ({disagreements}); the numbers behind this score may be wrong.' },
+    },
+    {
+      id: 'disagreement',
+      group: 'consistency',
+      when: [{ metric: 'disagreementCount', op: '>=', value: 1 }],
+      factor: { name: 'Uncertainty', score: 1, description: 'Trail data disagrees ({disagreements}); the numbers behind this score may be wrong.' },
+    },
+  ],
+};
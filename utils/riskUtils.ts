@@ -1,174 +1,252 @@
 
-import { ExperienceLevel, UserProfile, TripData, RiskAnalysis, RiskLevel, RiskFactor, WarningChip } from '../types';
-
-export const calculateRiskAnalysis = (
-  user: UserProfile, 
-  data: TripData, 
-  startTime: string,
-  packWeight?: number // Optional weight factor
-): RiskAnalysis => {
-  let score = 0;
-  const factors: RiskFactor[] = [];
-
-  // Helper to add factor
-  const add = (name: string, points: number, desc: string) => {
-    if (points > 0) {
-      score += points;
-      factors.push({ name, score: points, description: desc });
-    }
+import { UserProfile, TripData, TripDataField, RiskAnalysis, RiskFactor, WarningChip, RiskMetric, RiskThreshold, RiskCondition, RiskRuleSet, HourlyWeather, SupplyPlan } from '../types';
+import { isDefaulted } from './provenance';
+import { buildPacePlan, formatMinutes, toMinutes } from './pace';
+import { DEFAULT_RISK_RULES } from './riskRules';
+import { elevationSeries, steepestSegments } from './elevation';
+import { hoursBetween, summarizeHours, WeatherPeak } from './weather';
+import { assessStormExposure, describeExposureWindow } from './stormExposure';
+import { assessThermalStress, THERMAL_GRADES } from './thermalStress';
+import { assessAltitude, ALTITUDE_GRADES } from './altitude';
+import { assessRemoteness, remotenessNotes, REMOTENESS_GRADES } from './remoteness';
+
+// Inputs the risk score depends on, with the wording used in the Uncertainty factor
+const SCORED_FIELDS: { field: TripDataField; label: string }[] = [
+  { field: 'distanceKm', label: 'distance' },
+  { field: 'elevationM', label: 'elevation gain' },
+  { field: 'weatherCondition', label: 'weather' },
+  { field: 'tempC', label: 'temperature' },
+];
+
+type MetricValues = Partial<Record<RiskMetric, number | string>>;
+
+// Forecast fields that stand in for the report's single weather/temperature values
+const FORECAST_FIELDS: TripDataField[] = ['weatherCondition', 'tempC'];
+
+const peakValue = (p?: WeatherPeak, digits = 0) => (p ? parseFloat(p.value.toFixed(digits)).toString() : '');
+
+// Everything a rule can test, derived once per evaluation
+const measure = (user: UserProfile, data: TripData, startTime: string, { packWeight, durationMinutes, weatherHours }: RiskOptions) => {
+  const start = toMinutes(startTime);
+  // Raw minutes (not wrapped at midnight) so a finish after 24:00 still compares as late
+  const plan = buildPacePlan(data, startTime, user.fitness);
+  const duration = durationMinutes ?? plan.totalMinutes;
+
+  // Hour by hour: only the forecast hours the hiker is out in
+  const weather = summarizeHours(weatherHours ?? hoursBetween(data.forecast, start, start + duration));
+  const hasForecast = weather.hours.length > 0;
+
+  // Defaulted values are placeholders, not facts: their metrics stay missing and they count toward unknownInputCount.
+  const known = (field: TripDataField) => !isDefaulted(data, field) || (hasForecast && FORECAST_FIELDS.includes(field));
+  const unknownInputs = SCORED_FIELDS.filter(({ field }) => !known(field)).map(f => f.label);
+
+  const sunset = data.solar?.sunset ?? (known('sunsetTime') ? data.sunsetTime : undefined);
+  const civilDusk = data.solar?.civilDusk ?? undefined;
+  const finish = known('distanceKm') ? start + duration : undefined;
+
+  // Steepest stretch of a real profile; an assumed out-and-back shape says nothing about where it's steep
+  const steepest = known('distanceKm') && known('elevationM') && known('elevationProfile')
+    ? steepestSegments(elevationSeries(data), 1)[0]
+    : undefined;
+
+  // Exposed ground and the climb to the high point on the same clock as the rest of the day
+  const timeScale = plan.totalMinutes > 0 ? duration / plan.totalMinutes : 1;
+  const exposure = assessStormExposure(data, plan, startTime, { timeScale, hours: weatherHours });
+  const altitude = assessAltitude(data, user, plan, timeScale);
+  const remoteness = assessRemoteness(data, plan);
+  const exposedMinutes = exposure.windows.reduce((sum, w) => sum + ((toMinutes(w.leave) - toMinutes(w.enter) + 24 * 60) % (24 * 60)), 0);
+  const namedWindow = exposure.thunderWindow ?? exposure.windows[0];
+
+  // How hot/cold it feels for the effort; unscored packs are judged at the estimated weight
+  const thermal = assessThermalStress(data, weather.hours, packWeight ?? estimatePackWeight(data));
+  const around = (time?: string) => (time ? ` around ${time}` : '');
+
+  const reportTemp = !isDefaulted(data, 'tempC') ? data.tempC : undefined;
+
+  const metrics: MetricValues = {
+    distanceKm: known('distanceKm') ? data.distanceKm : undefined,
+    elevationM: known('elevationM') ? data.elevationM : undefined,
+    gainPerKm: known('distanceKm') && known('elevationM') && data.distanceKm > 0 ? data.elevationM / data.distanceKm : undefined,
+    tempC: reportTemp,
+    maxTempC: hasForecast ? weather.maxTemp?.value : reportTemp,
+    minTempC: hasForecast ? weather.minTemp?.value : reportTemp,
+    maxGustKph: weather.gust?.value,
+    maxPrecipPct: weather.precip?.value,
+    maxThunderPct: weather.thunder?.value,
+    exposedMinutes: known('distanceKm') ? exposedMinutes : undefined,
+    exposedThunderPct: exposure.thunderPct,
+    heatStress: thermal ? THERMAL_GRADES.indexOf(thermal.heat) : undefined,
+    coldStress: thermal ? THERMAL_GRADES.indexOf(thermal.cold) : undefined,
+    maxUvIndex: weather.uv?.value,
+    highPointM: altitude?.highPointM,
+    ascentRateMPerH: altitude?.ascentRateMPerH,
+    altitudeRisk: altitude ? ALTITUDE_GRADES.indexOf(altitude.grade) : undefined,
+    remoteness: remoteness ? REMOTENESS_GRADES.indexOf(remoteness.grade) : undefined,
+    minVisibilityKm: weather.visibility?.value,
+    weather: hasForecast ? weather.conditions || undefined : !isDefaulted(data, 'weatherCondition') ? data.weatherCondition.toLowerCase() : undefined,
+    startHour: parseInt(startTime.split(':')[0], 10),
+    packWeightKg: packWeight,
+    minutesPastSunset: finish !== undefined && sunset ? finish - toMinutes(sunset) : undefined,
+    minutesPastCivilDusk: finish !== undefined && sunset && civilDusk ? finish - toMinutes(civilDusk) : undefined,
+    maxGradePct: steepest ? Math.abs(steepest.gradePct) : undefined,
+    unknownInputCount: unknownInputs.length,
+    disagreementCount: data.disagreements?.length,
   };
 
-  // 1. Distance vs Experience
-  let distLimit = 5;
-  if (user.experience === ExperienceLevel.INTERMEDIATE) distLimit = 12;
-  if (user.experience === ExperienceLevel.ADVANCED) distLimit = 20;
-
-  if (data.distanceKm > distLimit * 1.5) {
-    add('Distance', 2, `Significantly longer than recommended for ${user.experience} level.`);
-  } else if (data.distanceKm > distLimit) {
-    add('Distance', 1, `At the upper end of comfort range for ${user.experience}.`);
-  }
-
-  // 2. Elevation vs Fitness
-  // Rough gains: Low fitness < 300m, Med < 800m, High < 1500m
-  let elevLimit = 300;
-  if (user.fitness === 'medium') elevLimit = 800;
-  if (user.fitness === 'high') elevLimit = 1500;
-
-  if (data.elevationM > elevLimit * 1.5) {
-    add('Elevation', 2, 'Very steep climb for current fitness level.');
-  } else if (data.elevationM > elevLimit) {
-    add('Elevation', 1, 'Significant elevation gain.');
-  }
-
-  // 3. Time of Day (Start Time)
-  // Assume late start is after 2 PM (14:00)
-  const hour = parseInt(startTime.split(':')[0], 10);
-  if (hour >= 14) {
-    // Higher risk if distance is long
-    if (data.distanceKm > 5) {
-      add('Timing', 2, 'Late start creates risk of hiking in the dark.');
-    } else {
-      add('Timing', 1, 'Late start; watch sunset times.');
-    }
-  }
-
-  // 4. Weather Conditions (Heuristics based on keywords)
-  const weather = data.weatherCondition.toLowerCase();
-  const temp = data.tempC;
-
-  if (weather.includes('storm') || weather.includes('thunder') || weather.includes('snow') || weather.includes('blizzard')) {
-    add('Weather', 2, 'Hazardous weather conditions reported.');
-  } else if (weather.includes('rain') || weather.includes('wind') || weather.includes('fog')) {
-    add('Weather', 1, 'Weather may make trail slippery or reduce visibility.');
-  }
-
-  if (temp > 30) {
-    add('Temperature', 2, 'Extreme heat risk. Dehydration danger.');
-  } else if (temp > 27) {
-    add('Temperature', 1, 'Hot conditions. Extra water required.');
-  } else if (temp < 0) {
-    add('Temperature', 2, 'Freezing conditions. Hypothermia risk.');
-  } else if (temp < 10 && (weather.includes('rain') || weather.includes('wind'))) {
-    add('Temperature', 1, 'Cold and wet/windy. Hypothermia risk.');
-  }
-
-  // 5. Pack Weight (New)
-  if (packWeight !== undefined) {
-      if (packWeight > 15) add('Gear', 2, 'Very heavy pack increases fatigue and injury risk.');
-      else if (packWeight > 10) add('Gear', 1, 'Heavy pack for a day hike.');
-  }
-
-  // 6. Missing Data Penalty
-  if (data.distanceKm === 0 || data.elevationM === 0) {
-    add('Uncertainty', 1, 'Missing key trail data increases risk.');
-  }
-
-  // Determine Level
-  let level: RiskLevel = 'Low';
-  let color = 'bg-forest-500'; // Green
-
-  if (score >= 7) {
-    level = 'High';
-    color = 'bg-red-600';
-  } else if (score >= 5) {
-    level = 'Elevated';
-    color = 'bg-orange-500';
-  } else if (score >= 3) {
-    level = 'Moderate';
-    color = 'bg-amber-400';
-  }
+  const placeholders: Record<string, string> = {
+    experience: user.experience,
+    finish: finish !== undefined ? formatMinutes(finish) : '',
+    sunset: sunset || '',
+    civilDusk: civilDusk || '',
+    unknownInputs: unknownInputs.join(', '),
+    disagreements: (data.disagreements || []).map(d => d.label).join(', '),
+    steepestGrade: steepest ? Math.round(Math.abs(steepest.gradePct)).toString() : '',
+    steepestKm: steepest ? steepest.fromKm.toFixed(1) : '',
+    maxTemp: peakValue(weather.maxTemp),
+    maxTempTime: weather.maxTemp?.time || '',
+    minTemp: peakValue(weather.minTemp),
+    minTempTime: weather.minTemp?.time || '',
+    gust: peakValue(weather.gust),
+    gustTime: weather.gust?.time || '',
+    precip: peakValue(weather.precip),
+    precipTime: weather.precip?.time || '',
+    thunder: peakValue(weather.thunder),
+    thunderTime: weather.thunder?.time || '',
+    uv: peakValue(weather.uv),
+    uvTime: weather.uv?.time || '',
+    visibility: peakValue(weather.visibility, 1),
+    visibilityTime: weather.visibility?.time || '',
+    exposureWindow: namedWindow ? describeExposureWindow(namedWindow) : '',
+    exposedThunder: exposure.thunderPct !== undefined ? Math.round(exposure.thunderPct).toString() : '',
+    offSummitBy: exposure.offSummitBy || '',
+    exertion: thermal?.exertion || '',
+    heatIndex: thermal?.heatIndexC !== undefined ? Math.round(thermal.heatIndexC).toString() : '',
+    heatIndexWhen: around(thermal?.heatIndexTime),
+    windChill: thermal?.windChillC !== undefined ? Math.round(thermal.windChillC).toString() : '',
+    windChillWhen: around(thermal?.windChillTime),
+    highPoint: altitude ? Math.round(altitude.highPointM).toString() : '',
+    climbRate: altitude?.ascentRateMPerH !== undefined ? ` climbing ~${Math.round(altitude.ascentRateMPerH / 10) * 10} m/h` : '',
+    acclimatization: altitude?.acclimatized ? 'acclimatized' : 'not acclimatized',
+    hoursFromRoad: remoteness ? remoteness.hoursFromRoad.toFixed(1) : '',
+    kmFromRoad: remoteness ? remoteness.kmFromRoad.toFixed(1) : '',
+    remoteNotes: remoteness ? remotenessNotes(remoteness).map(n => `, ${n}`).join('') : '',
+  };
 
-  return { level, score, factors, color };
+  return { metrics, placeholders };
 };
 
-// --- NEW UTILITIES ---
-
-export const generateWarnings = (data: TripData, startTime: string): WarningChip[] => {
-  const warnings: WarningChip[] = [];
-  const temp = data.tempC;
-  const weather = data.weatherCondition.toLowerCase();
-  const startHour = parseInt(startTime.split(':')[0], 10);
-
-  // Heat
-  if (temp >= 30) warnings.push({ type: 'Heat', label: 'Extreme Heat', severity: 'red' });
-  else if (temp >= 27) warnings.push({ type: 'Heat', label: 'High Heat', severity: 'orange' });
-
-  // Cold
-  if (temp <= 0) warnings.push({ type: 'Cold', label: 'Freezing', severity: 'red' });
-  
-  // Storm
-  if (weather.includes('storm') || weather.includes('thunder')) {
-    warnings.push({ type: 'Storm', label: 'Storm Risk', severity: 'red' });
-  }
+const resolveThreshold = (threshold: RiskThreshold, user: UserProfile): number => {
+  if (typeof threshold === 'number') return threshold;
+  if ('byExperience' in threshold) return threshold.byExperience[user.experience];
+  return threshold.byFitness[user.fitness];
+};
 
-  // Late
-  if (startHour >= 14 && data.distanceKm > 5) {
-    warnings.push({ type: 'Late', label: 'Late Start', severity: 'orange' });
+const matches = (condition: RiskCondition, metrics: MetricValues, user: UserProfile): boolean => {
+  const value = metrics[condition.metric];
+  switch (condition.op) {
+    case 'missing': return value === undefined || Number.isNaN(value);
+    case 'present': return value !== undefined && !Number.isNaN(value);
+    case 'includesAny': return typeof value === 'string' && condition.value.some(word => value.includes(word));
   }
-
-  // Steep
-  // Heuristic: > 50m gain per km is reasonably steep for hiking
-  if (data.distanceKm > 0 && (data.elevationM / data.distanceKm) > 60) {
-    warnings.push({ type: 'Steep', label: 'Steep Sections', severity: 'yellow' });
+  if (typeof value !== 'number' || Number.isNaN(value)) return false;
+  const limit = resolveThreshold(condition.value, user);
+  switch (condition.op) {
+    case '>': return value > limit;
+    case '>=': return value >= limit;
+    case '<': return value < limit;
+    case '<=': return value <= limit;
   }
-
-  return warnings;
 };
 
-export const calculateTurnaroundTime = (data: TripData, startTime: string, fitness: string): string => {
-  // Naive pace calc (km/h)
-  let speed = 4; // medium
-  if (fitness === 'low') speed = 3;
-  if (fitness === 'high') speed = 5;
-
-  // Adjust for elevation: -1km/h for every 500m gain roughly
-  const elevFactor = data.elevationM / 500;
-  speed = Math.max(1, speed - elevFactor * 0.5);
+const fill = (template: string, placeholders: Record<string, string>) =>
+  template.replace(/\{(\w+)\}/g, (match, key) => placeholders[key] ?? match);
+
+export interface RiskOptions {
+  packWeight?: number; // Scored only when supplied
+  ruleSet?: RiskRuleSet;
+  durationMinutes?: number; // Overrides the pace plan's hiking time (e.g. a simulated day)
+  weatherHours?: HourlyWeather[]; // Overrides the forecast hours on the trail (e.g. scoring one hour at a time)
+  groups?: string[]; // Only run rules in these groups
+}
+
+/**
+ * RISK ENGINE: Runs a rule set over the trip and returns the score and the warning chips together,
+ * so the two can never disagree about a threshold.
+ */
+export const evaluateRisk = (
+  user: UserProfile,
+  data: TripData,
+  startTime: string,
+  options: RiskOptions = {},
+): { analysis: RiskAnalysis; warnings: WarningChip[] } => {
+  const ruleSet = options.ruleSet ?? DEFAULT_RISK_RULES;
+  const { metrics, placeholders } = measure(user, data, startTime, options);
+  const firedGroups = new Set<string>();
+  const factors: RiskFactor[] = [];
+  const warnings: WarningChip[] = [];
 
-  const durationHours = (data.distanceKm / speed) * 1.1; // +10% buffer
-  
-  const startHour = parseInt(startTime.split(':')[0], 10);
-  const startMin = parseInt(startTime.split(':')[1], 10);
-  const startTotalMinutes = startHour * 60 + startMin;
+  ruleSet.rules.forEach(rule => {
+    if (options.groups && !options.groups.includes(rule.group)) return;
+    if (firedGroups.has(rule.group) || !rule.when.every(c => matches(c, metrics, user))) return;
+    firedGroups.add(rule.group);
+    if (rule.factor && rule.factor.score > 0) {
+      factors.push({ ...rule.factor, description: fill(rule.factor.description, placeholders) });
+    }
+    if (rule.chip) warnings.push({ ...rule.chip, label: fill(rule.chip.label, placeholders) });
+  });
 
-  const halfDurationMinutes = (durationHours * 60) / 2;
-  const turnAroundMinutes = startTotalMinutes + halfDurationMinutes;
+  const score = factors.reduce((sum, f) => sum + f.score, 0);
+  const band = ruleSet.levels.find(l => score >= l.minScore) ?? ruleSet.levels[ruleSet.levels.length - 1];
 
-  const h = Math.floor(turnAroundMinutes / 60) % 24;
-  const m = Math.floor(turnAroundMinutes % 60);
-  
-  return `${h}:${m.toString().padStart(2, '0')}`;
+  return {
+    analysis: { level: band.level, score, factors, color: band.color, ruleSetVersion: ruleSet.version },
+    warnings,
+  };
 };
 
-export const estimatePackWeight = (data: TripData): number => {
+export const calculateRiskAnalysis = (
+  user: UserProfile,
+  data: TripData,
+  startTime: string,
+  packWeight?: number,
+  ruleSet?: RiskRuleSet,
+): RiskAnalysis => evaluateRisk(user, data, startTime, { packWeight, ruleSet }).analysis;
+
+export const generateWarnings = (user: UserProfile, data: TripData, startTime: string, ruleSet?: RiskRuleSet): WarningChip[] =>
+  evaluateRisk(user, data, startTime, { ruleSet }).warnings;
+
+// Rule groups that depend on the weather
+const WEATHER_GROUPS = ['weather', 'temperature', 'sun'];
+
+export interface HourlyRisk {
+  hour: HourlyWeather;
+  factors: RiskFactor[];
+  warnings: WarningChip[];
+}
+
+/**
+ * Scores each forecast hour on its own with the weather rules, so the timeline can show which hours carry the risk.
+ */
+export const evaluateWeatherByHour = (user: UserProfile, data: TripData, startTime: string, ruleSet?: RiskRuleSet): HourlyRisk[] =>
+  (data.forecast?.hours || []).map(hour => {
+    const { analysis, warnings } = evaluateRisk(user, data, startTime, { ruleSet, weatherHours: [hour], groups: WEATHER_GROUPS });
+    return { hour, factors: analysis.factors, warnings };
+  });
+
+// With a supply plan, water and food are what it says to leave the trailhead with (see utils/supplies.ts)
+export const estimatePackWeight = (data: TripData, supplies?: SupplyPlan | null): number => {
   let base = 3.5; // kg, light base
   // Water: 0.5L per 5km roughly + temp factor
   let waterL = (data.distanceKm / 5) * 0.5;
   if (data.tempC > 25) waterL *= 1.5;
   
   // Food
-  const foodKg = (data.distanceKm / 20) * 0.5; // 0.5kg per 20km? very rough
+  let foodKg = (data.distanceKm / 20) * 0.5; // 0.5kg per 20km? very rough
+
+  if (supplies) {
+    waterL = supplies.startCarryL;
+    foodKg = supplies.foodKg;
+  }
 
   // Layers
   let layersKg = 0.5;
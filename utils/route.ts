@@ -0,0 +1,248 @@
+import { LatLng, RouteFormat, RouteStats, RouteTrack, TrackPoint, TripData, TripDataField } from '../types';
+import { getProvenance, isDefaulted, withProvenance } from './provenance';
+import { applySolarTimes } from './solar';
+import { elevationAtKm, trackElevations } from './elevation';
+
+/**
+ * ROUTE IMPORT: Parses GPX, KML and GeoJSON tracks in the browser and measures them locally,
+ * so distance, gain and the elevation profile come from the actual line rather than the model's guess.
+ */
+
+const EARTH_RADIUS_KM = 6371;
+const ELEVATION_NOISE_M = 5; // Climbs and drops smaller than this are GPS jitter, not terrain
+const MAX_STORED_POINTS = 1000;
+const PROFILE_POINTS = 50;
+const MISMATCH_RATIO = 0.1; // Mention the AI's value in the note when it was off by more than this
+
+const haversineKm = (a: LatLng, b: LatLng): number => {
+  const rad = Math.PI / 180;
+  const dLat = (b.lat - a.lat) * rad;
+  const dLng = (b.lng - a.lng) * rad;
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(a.lat * rad) * Math.cos(b.lat * rad) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+};
+
+type RawPoint = { lat: number; lng: number; ele?: number };
+
+const isValidPoint = (p: RawPoint) =>
+  Number.isFinite(p.lat) && Number.isFinite(p.lng) && Math.abs(p.lat) <= 90 && Math.abs(p.lng) <= 180;
+
+const isRecord = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const optionalNumber = (value: unknown): number | undefined => {
+  const n = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : undefined;
+};
+
+const parseXml = (text: string): Document => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error("The file isn't valid XML.");
+  return doc;
+};
+
+const parseGpx = (text: string): { name?: string; points: RawPoint[] } => {
+  const doc = parseXml(text);
+  // Prefer recorded/planned tracks; fall back to routes
+  let nodes = Array.from(doc.getElementsByTagName('trkpt'));
+  if (nodes.length === 0) nodes = Array.from(doc.getElementsByTagName('rtept'));
+  const points = nodes.map(node => ({
+    lat: parseFloat(node.getAttribute('lat') || ''),
+    lng: parseFloat(node.getAttribute('lon') || ''),
+    ele: optionalNumber(node.getElementsByTagName('ele')[0]?.textContent),
+  }));
+  const name = doc.querySelector('trk > name, rte > name, metadata > name')?.textContent?.trim();
+  return { name: name || undefined, points };
+};
+
+const parseKml = (text: string): { name?: string; points: RawPoint[] } => {
+  const doc = parseXml(text);
+  const points: RawPoint[] = [];
+
+  // <LineString><coordinates>lng,lat[,alt] ...</coordinates>
+  Array.from(doc.getElementsByTagName('LineString')).forEach(line => {
+    const coords = line.getElementsByTagName('coordinates')[0]?.textContent || '';
+    coords.trim().split(/\s+/).filter(Boolean).forEach(tuple => {
+      const [lng, lat, ele] = tuple.split(',');
+      points.push({ lat: parseFloat(lat), lng: parseFloat(lng), ele: optionalNumber(ele) });
+    });
+  });
+
+  // Google Earth tracks: <gx:coord>lng lat alt</gx:coord>
+  if (points.length === 0) {
+    Array.from(doc.getElementsByTagName('gx:coord')).forEach(node => {
+      const [lng, lat, ele] = (node.textContent || '').trim().split(/\s+/);
+      points.push({ lat: parseFloat(lat), lng: parseFloat(lng), ele: optionalNumber(ele) });
+    });
+  }
+
+  const name = doc.getElementsByTagName('Placemark')[0]?.getElementsByTagName('name')[0]?.textContent?.trim()
+    || doc.getElementsByTagName('name')[0]?.textContent?.trim();
+  return { name: name || undefined, points };
+};
+
+const parseGeoJson = (text: string): { name?: string; points: RawPoint[] } => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error("The file isn't valid GeoJSON.");
+  }
+
+  const points: RawPoint[] = [];
+  let name: string | undefined;
+  const fromPosition = (position: unknown) => {
+    if (!Array.isArray(position)) return;
+    points.push({ lng: Number(position[0]), lat: Number(position[1]), ele: optionalNumber(position[2]) });
+  };
+
+  const list = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+  const visit = (node: unknown) => {
+    if (!isRecord(node)) return;
+    switch (node.type) {
+      case 'FeatureCollection':
+        list(node.features).forEach(visit);
+        break;
+      case 'Feature':
+        if (!name && isRecord(node.properties) && typeof node.properties.name === 'string') name = node.properties.name;
+        visit(node.geometry);
+        break;
+      case 'GeometryCollection':
+        list(node.geometries).forEach(visit);
+        break;
+      case 'LineString':
+        list(node.coordinates).forEach(fromPosition);
+        break;
+      case 'MultiLineString':
+        list(node.coordinates).forEach(line => list(line).forEach(fromPosition));
+        break;
+    }
+  };
+  visit(json);
+
+  return { name, points };
+};
+
+const detectFormat = (fileName: string, text: string): RouteFormat => {
+  const ext = fileName.toLowerCase().split('.').pop();
+  if (ext === 'gpx' || ext === 'kml') return ext;
+  if (ext === 'geojson' || ext === 'json') return 'geojson';
+  const head = text.trimStart().slice(0, 500);
+  if (head.startsWith('{')) return 'geojson';
+  if (head.includes('<gpx')) return 'gpx';
+  if (head.includes('<kml')) return 'kml';
+  throw new Error('Unsupported file type. Use a GPX, KML or GeoJSON file.');
+};
+
+// Gain and loss with a noise threshold: elevation only "moves" once it has changed by ELEVATION_NOISE_M
+const climbTotals = (elevations: number[]): { gainM: number; lossM: number } => {
+  let gainM = 0;
+  let lossM = 0;
+  let anchor = elevations[0];
+  elevations.slice(1).forEach(ele => {
+    const delta = ele - anchor;
+    if (Math.abs(delta) < ELEVATION_NOISE_M) return;
+    if (delta > 0) gainM += delta;
+    else lossM -= delta;
+    anchor = ele;
+  });
+  return { gainM: Math.round(gainM), lossM: Math.round(lossM) };
+};
+
+// Points missing <ele> take the distance-weighted value between their nearest neighbours that have one
+const fillElevationGaps = (points: TrackPoint[]): TrackPoint[] => {
+  const known = points.filter(p => p.ele !== undefined).map(p => ({ km: p.km, ele: p.ele as number }));
+  return points.map(p => (p.ele !== undefined ? p : { ...p, ele: elevationAtKm(known, p.km) }));
+};
+
+const measureTrack = (raw: RawPoint[]): { points: TrackPoint[]; stats: RouteStats } => {
+  let km = 0;
+  let points: TrackPoint[] = raw.map((p, i) => {
+    if (i > 0) km += haversineKm(raw[i - 1], p);
+    return { lat: p.lat, lng: p.lng, ele: p.ele, km };
+  });
+
+  const elevations = points.map(p => p.ele).filter((e): e is number => e !== undefined);
+  // Only trust elevation when (nearly) every point has it; otherwise the track's elevation is unknown
+  const hasElevation = elevations.length >= points.length * 0.9 && elevations.length >= 2;
+  points = hasElevation ? fillElevationGaps(points) : points.map(p => ({ ...p, ele: undefined }));
+  const stats: RouteStats = {
+    distanceKm: parseFloat(km.toFixed(2)),
+    gainM: 0,
+    lossM: 0,
+  };
+  if (hasElevation) {
+    Object.assign(stats, climbTotals(elevations), {
+      minAltitudeM: Math.round(Math.min(...elevations)),
+      maxAltitudeM: Math.round(Math.max(...elevations)),
+    });
+  }
+  return { points, stats };
+};
+
+const thin = (points: TrackPoint[]): TrackPoint[] => {
+  if (points.length <= MAX_STORED_POINTS) return points;
+  const step = (points.length - 1) / (MAX_STORED_POINTS - 1);
+  return Array.from({ length: MAX_STORED_POINTS }, (_, i) => points[Math.round(i * step)]);
+};
+
+/**
+ * Parses an uploaded route file. Throws an Error with a user-facing message when the file can't be used.
+ */
+export const parseRouteFile = (fileName: string, text: string): RouteTrack => {
+  const format = detectFormat(fileName, text);
+  const parsed = format === 'gpx' ? parseGpx(text) : format === 'kml' ? parseKml(text) : parseGeoJson(text);
+  const valid = parsed.points.filter(isValidPoint);
+  if (valid.length < 2) throw new Error('No track found in the file. It needs a line with at least two points.');
+
+  const { points, stats } = measureTrack(valid);
+  if (stats.distanceKm <= 0) throw new Error('The track has no length.');
+
+  return { fileName, format, name: parsed.name, points: thin(points), stats };
+};
+
+// Evenly spaced 0-100 profile, the same shape the model returns but measured
+const relativeProfile = (track: RouteTrack): number[] => {
+  const total = track.points[track.points.length - 1].km;
+  const points = trackElevations(track);
+  const samples = Array.from({ length: PROFILE_POINTS }, (_, i) => elevationAtKm(points, (total * i) / (PROFILE_POINTS - 1)));
+  const min = Math.min(...samples);
+  const span = Math.max(...samples) - min;
+  return samples.map(e => (span > 0 ? Math.round(((e - min) / span) * 100) : 0));
+};
+
+const trackNote = (data: TripData, field: TripDataField, track: RouteTrack, measured: number, unit: string): string => {
+  const base = `Measured from ${track.fileName}.`;
+  if (isDefaulted(data, field) || getProvenance(data, field).source === 'user') return base;
+  const aiValue = data[field] as number;
+  const off = measured > 0 ? Math.abs(aiValue - measured) / measured : 0;
+  return off > MISMATCH_RATIO ? `${base} The AI said ${aiValue} ${unit}.` : base;
+};
+
+/**
+ * Replaces model distance, gain, profile, trailhead and altitudes with the imported track's, noting where the AI disagreed.
+ * Solar times are recomputed for the track's start point.
+ */
+export const applyRouteTrack = (data: TripData, track: RouteTrack, date: string): TripData => {
+  const { stats } = track;
+  const measured = { source: 'computed' as const, confidence: 'high' as const };
+
+  let next = withProvenance(
+    { ...data, distanceKm: stats.distanceKm, routeStats: stats },
+    'distanceKm',
+    { ...measured, note: trackNote(data, 'distanceKm', track, stats.distanceKm, 'km') },
+  );
+
+  if (stats.maxAltitudeM !== undefined) {
+    next = withProvenance({ ...next, elevationM: stats.gainM }, 'elevationM', { ...measured, note: trackNote(data, 'elevationM', track, stats.gainM, 'm') });
+    next = withProvenance({ ...next, elevationProfile: relativeProfile(track) }, 'elevationProfile', { ...measured, note: `Measured from ${track.fileName}.` });
+  }
+
+  const start = track.points[0];
+  if (start.ele !== undefined && stats.maxAltitudeM !== undefined) {
+    next = withProvenance({ ...next, trailheadAltitudeM: Math.round(start.ele) }, 'trailheadAltitudeM', { ...measured, note: `Measured from ${track.fileName}.` });
+    next = withProvenance({ ...next, highPointM: stats.maxAltitudeM }, 'highPointM', { ...measured, note: `Measured from ${track.fileName}.` });
+  }
+  return applySolarTimes({ ...next, trailhead: { lat: start.lat, lng: start.lng } }, date);
+};
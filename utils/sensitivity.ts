@@ -0,0 +1,130 @@
+import { RiskAnalysis, RiskLevel, TripData, UserProfile } from '../types';
+import { calculateRiskAnalysis, estimatePackWeight } from './riskUtils';
+import { formatMinutes, toMinutes } from './pace';
+
+/**
+ * SENSITIVITY: "What would make this Low?"
+ * Searches the What If levers (start time, distance, pack weight, fitness) for the smallest change
+ * that brings the risk down to each lower level. Scenarios are slider positions, so applying one
+ * in the What If panel reproduces the same score. Positions are scored cheapest first, and the search stops
+ * once nothing left can beat the cheapest way to Low; only a trip that can't reach Low walks the whole grid.
+ */
+
+export interface RiskLevers {
+  startShiftHours: number; // What If "Start Time" slider
+  distanceDeltaKm: number; // What If "Distance" slider
+  packWeightDeltaKg: number; // What If "Pack Weight" slider
+  fitness: UserProfile['fitness'];
+}
+
+export interface RiskScenario {
+  targetLevel: RiskLevel;
+  levers: RiskLevers;
+  changes: string[]; // Human-readable, one per lever moved
+  analysis: RiskAnalysis;
+}
+
+const LEVEL_ORDER: RiskLevel[] = ['Low', 'Moderate', 'Elevated', 'High'];
+const FITNESS_ORDER: UserProfile['fitness'][] = ['low', 'medium', 'high'];
+
+// Search ranges, matching the What If sliders. Only directions that can lower risk are tried for distance and weight.
+const START_SHIFTS = [0, -1, 1, -2, 2, -3, 3, -4, 4, 5, 6, 7, 8];
+const DISTANCE_DELTAS = [0, -1, -2, -3, -4, -5];
+const WEIGHT_DELTAS = [0, -1, -2, -3, -4, -5];
+
+const range = (values: number[]) => Math.max(...values.map(Math.abs));
+
+/**
+ * Applies lever positions the same way the What If panel does: distance and pack weight never drop below 1,
+ * and the start hour stays within the day. `packKg` is the weight of the user's packed list, when there is one;
+ * otherwise the pack is estimated from the (shortened) route.
+ */
+export const applyLevers = (user: UserProfile, data: TripData, startTime: string, levers: RiskLevers, packKg?: number) => {
+  const hypoData: TripData = { ...data, distanceKm: Math.max(1, data.distanceKm + levers.distanceDeltaKm) };
+  const start = Math.min(23 * 60 + 59, Math.max(0, toMinutes(startTime) + levers.startShiftHours * 60));
+  const [h, m] = formatMinutes(start).split(':');
+  return {
+    user: { ...user, fitness: levers.fitness },
+    data: hypoData,
+    startTime: `${h.padStart(2, '0')}:${m}`,
+    packWeight: Math.max(1, (packKg ?? estimatePackWeight(hypoData)) + levers.packWeightDeltaKg),
+  };
+};
+
+export const scoreLevers = (user: UserProfile, data: TripData, startTime: string, levers: RiskLevers, packKg?: number): RiskAnalysis => {
+  const applied = applyLevers(user, data, startTime, levers, packKg);
+  return calculateRiskAnalysis(applied.user, applied.data, applied.startTime, applied.packWeight);
+};
+
+const describe = (levers: RiskLevers, user: UserProfile, startTime: string): string[] => {
+  const changes: string[] = [];
+  if (levers.startShiftHours !== 0) {
+    const hours = Math.abs(levers.startShiftHours);
+    changes.push(`Start ${hours}h ${levers.startShiftHours < 0 ? 'earlier' : 'later'} (${formatMinutes(toMinutes(startTime) + levers.startShiftHours * 60)})`);
+  }
+  if (levers.distanceDeltaKm !== 0) changes.push(`Shorten the route by ${-levers.distanceDeltaKm} km`);
+  if (levers.packWeightDeltaKg !== 0) changes.push(`Carry ${-levers.packWeightDeltaKg} kg less`);
+  if (levers.fitness !== user.fitness) changes.push(`Hike at ${levers.fitness} fitness`);
+  return changes;
+};
+
+export const findRiskScenarios = (user: UserProfile, data: TripData, startTime: string, packKg?: number): RiskScenario[] => {
+  const baseline = scoreLevers(user, data, startTime, { startShiftHours: 0, distanceDeltaKm: 0, packWeightDeltaKg: 0, fitness: user.fitness }, packKg);
+  const baselineRank = LEVEL_ORDER.indexOf(baseline.level);
+  if (baselineRank === 0) return [];
+
+  const fitnessStepsOf = (levers: RiskLevers) => Math.abs(FITNESS_ORDER.indexOf(levers.fitness) - FITNESS_ORDER.indexOf(user.fitness));
+  const moved = (levers: RiskLevers) =>
+    [levers.startShiftHours, levers.distanceDeltaKm, levers.packWeightDeltaKg, fitnessStepsOf(levers)].filter(v => v !== 0).length;
+
+  // Fewest levers moved first, then the smallest total move (each lever scaled to its slider range)
+  const cost = (levers: RiskLevers) => {
+    const fitnessSteps = fitnessStepsOf(levers);
+    const size = Math.abs(levers.startShiftHours) / range(START_SHIFTS)
+      + Math.abs(levers.distanceDeltaKm) / range(DISTANCE_DELTAS)
+      + Math.abs(levers.packWeightDeltaKg) / range(WEIGHT_DELTAS)
+      + fitnessSteps / (FITNESS_ORDER.length - 1);
+    return moved(levers) * 10 + size;
+  };
+
+  // Cheapest scenario reaching each level rank (index into LEVEL_ORDER) or better
+  const best: { levers: RiskLevers; analysis: RiskAnalysis; cost: number }[] = [];
+  const consider = (levers: RiskLevers) => {
+    const analysis = scoreLevers(user, data, startTime, levers, packKg);
+    const rank = LEVEL_ORDER.indexOf(analysis.level);
+    const c = cost(levers);
+    for (let target = rank; target < baselineRank; target++) {
+      if (!best[target] || c < best[target].cost) best[target] = { levers, analysis, cost: c };
+    }
+  };
+
+  // Every slider position, cheapest first. Nothing is pruned up front: a move that raises the score on its own
+  // can still be part of the smallest set. A scenario reaching Low also counts for every level above it, so once
+  // a position costs as much as `best[0]`, none after it can beat any level's best, whatever the cost weights.
+  const combinations: RiskLevers[] = [];
+  START_SHIFTS.forEach(startShiftHours => {
+    DISTANCE_DELTAS.forEach(distanceDeltaKm => {
+      WEIGHT_DELTAS.forEach(packWeightDeltaKg => {
+        FITNESS_ORDER.forEach(fitness => {
+          const levers = { startShiftHours, distanceDeltaKm, packWeightDeltaKg, fitness };
+          if (moved(levers) > 0) combinations.push(levers);
+        });
+      });
+    });
+  });
+  combinations.sort((a, b) => cost(a) - cost(b));
+  for (const levers of combinations) {
+    if (best[0] && cost(levers) >= best[0].cost) break;
+    consider(levers);
+  }
+
+  return LEVEL_ORDER.slice(0, baselineRank)
+    .map((targetLevel, rank) => best[rank] && {
+      targetLevel,
+      levers: best[rank].levers,
+      changes: describe(best[rank].levers, user, startTime),
+      analysis: best[rank].analysis,
+    })
+    .filter((s): s is RiskScenario => !!s)
+    .reverse(); // Nearest level first
+};
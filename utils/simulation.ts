@@ -0,0 +1,121 @@
+import { DataConfidence, RiskLevel, TimeBand, TripData, TripDataField, TripSimulation, UserProfile } from '../types';
+import { evaluateRisk } from './riskUtils';
+import { buildPacePlan, formatMinutes, toMinutes } from './pace';
+import { getProvenance, isDefaulted } from './provenance';
+import { shiftForecastTemps } from './weather';
+
+/**
+ * TRIP SIMULATION: Monte Carlo over the things a point estimate hides.
+ * Each sample perturbs distance and gain (by how much we trust them), the hiker's pace on the day,
+ * unplanned breaks and the weather, then runs the pace plan and the risk engine on the result.
+ * Seeded, so the same inputs always give the same bands. The risk engine is the slow part, so it only scores
+ * an evenly spread subset of the samples; finish times use them all.
+ */
+
+const SAMPLES = 400;
+const RISK_EVERY = 5; // Score every 5th sample: 80 risk evaluations
+const SEED = 0x5eed;
+
+// Relative 1σ error of a TripData value by where it came from
+const VALUE_SPREAD: Record<DataConfidence, number> = { high: 0.05, medium: 0.1, low: 0.2 };
+const USER_SPREAD = 0.03;
+const PACE_SPREAD = 0.12; // Day-to-day pace variation, log scale
+const MAX_EXTRA_BREAKS = 0.1; // Unplanned stops on top of the pace plan's buffer, as a share of moving time
+const TEMP_SPREAD_C: Record<DataConfidence, number> = { high: 1.5, medium: 2.5, low: 4 };
+const FORECAST_CONFIDENCE: DataConfidence = 'medium';
+const WEATHER_TURNS_WET = 0.1;
+const WEATHER_TURNS_STORMY = 0.05;
+
+// mulberry32
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Box-Muller standard normal
+const normal = (random: () => number) => Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+
+const spreadFor = (data: TripData, field: TripDataField): number => {
+  const p = getProvenance(data, field);
+  return p.source === 'user' ? USER_SPREAD : VALUE_SPREAD[p.confidence];
+};
+
+const vary = (value: number, spread: number, random: () => number) => Math.max(0, value * (1 + spread * normal(random)));
+
+const varyWeather = (weather: string, random: () => number): string => {
+  const w = weather.toLowerCase();
+  if (w.includes('storm') || w.includes('thunder') || w.includes('snow') || w.includes('blizzard')) return weather;
+  if (w.includes('rain') || w.includes('wind') || w.includes('fog')) {
+    return random() < WEATHER_TURNS_STORMY ? `${weather}, thunderstorms developing` : weather;
+  }
+  return random() < WEATHER_TURNS_WET ? `${weather}, rain showers` : weather;
+};
+
+const percentile = (sorted: number[], p: number) => sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+
+const band = (minutes: number[]): TimeBand => {
+  const sorted = [...minutes].sort((a, b) => a - b);
+  return {
+    p10: formatMinutes(percentile(sorted, 0.1)),
+    p50: formatMinutes(percentile(sorted, 0.5)),
+    p90: formatMinutes(percentile(sorted, 0.9)),
+  };
+};
+
+export const simulateTrip = (user: UserProfile, data: TripData, startTime: string, packWeight?: number): TripSimulation => {
+  const random = createRandom(SEED);
+  const start = toMinutes(startTime);
+  const distanceKnown = !isDefaulted(data, 'distanceKm');
+  const sunset = data.solar?.sunset ?? (isDefaulted(data, 'sunsetTime') ? undefined : data.sunsetTime);
+  const civilDusk = sunset ? data.solar?.civilDusk ?? undefined : undefined;
+
+  const turnarounds: number[] = [];
+  const finishes: number[] = [];
+  const levelCounts: Record<RiskLevel, number> = { Low: 0, Moderate: 0, Elevated: 0, High: 0 };
+
+  // An hourly forecast already carries its own rain and thunder odds; only its temperatures are shifted
+  const tempKnown = !!data.forecast || !isDefaulted(data, 'tempC');
+  const tempSpread = TEMP_SPREAD_C[data.forecast ? FORECAST_CONFIDENCE : getProvenance(data, 'tempC').confidence];
+
+  for (let i = 0; i < SAMPLES; i++) {
+    const tempDelta = tempKnown ? tempSpread * normal(random) : 0;
+    const sample: TripData = {
+      ...data,
+      distanceKm: distanceKnown ? vary(data.distanceKm, spreadFor(data, 'distanceKm'), random) : data.distanceKm,
+      elevationM: isDefaulted(data, 'elevationM') ? data.elevationM : vary(data.elevationM, spreadFor(data, 'elevationM'), random),
+      tempC: data.tempC + tempDelta,
+      weatherCondition: isDefaulted(data, 'weatherCondition') ? data.weatherCondition : varyWeather(data.weatherCondition, random),
+      forecast: shiftForecastTemps(data.forecast, tempDelta),
+    };
+
+    const plan = buildPacePlan(sample, startTime, user.fitness);
+    const pace = Math.exp(PACE_SPREAD * normal(random));
+    const breaks = 1 + MAX_EXTRA_BREAKS * random();
+    const outbound = plan.outboundMinutes * pace * breaks;
+    const total = plan.totalMinutes * pace * breaks;
+
+    turnarounds.push(start + outbound);
+    finishes.push(start + total);
+    if (i % RISK_EVERY === 0) {
+      levelCounts[evaluateRisk(user, sample, startTime, { packWeight, durationMinutes: total }).analysis.level]++;
+    }
+  }
+
+  const riskSamples = Math.ceil(SAMPLES / RISK_EVERY);
+  const share = (count: number) => count / SAMPLES;
+  const levelProbabilities = Object.fromEntries(
+    Object.entries(levelCounts).map(([level, count]) => [level, count / riskSamples])
+  ) as Record<RiskLevel, number>;
+
+  return {
+    samples: SAMPLES,
+    riskSamples,
+    turnaround: distanceKnown ? band(turnarounds) : null,
+    finish: distanceKnown ? band(finishes) : null,
+    pAfterSunset: distanceKnown && sunset ? share(finishes.filter(f => f > toMinutes(sunset)).length) : undefined,
+    pAfterDark: distanceKnown && civilDusk ? share(finishes.filter(f => f > toMinutes(civilDusk)).length) : undefined,
+    levelProbabilities,
+  };
+};
@@ -0,0 +1,126 @@
+import { LatLng, MoonPhase, SolarTimes, TripData } from '../types';
+import { getProvenance, withProvenance } from './provenance';
+
+/**
+ * SOLAR CALCULATOR: Sunrise, sunset and twilight from coordinates and date.
+ * Uses the standard sunrise equation (NOAA-style low-precision solar position), good to about a minute
+ * away from the poles. Deterministic and offline, so it doesn't depend on what the model found.
+ */
+
+const RAD = Math.PI / 180;
+const J2000 = 2451545.0;
+const MS_PER_DAY = 86400000;
+const UNIX_EPOCH_JD = 2440587.5;
+const OBLIQUITY = 23.4397 * RAD;
+
+// Sun altitude at each event, in degrees. -0.833 accounts for refraction and the sun's radius.
+const SUNRISE_ALTITUDE = -0.833;
+const CIVIL_ALTITUDE = -6;
+const NAUTICAL_ALTITUDE = -12;
+
+const SYNODIC_MONTH = 29.530588853;
+const KNOWN_NEW_MOON_MS = Date.UTC(2000, 0, 6, 18, 14); // 6 Jan 2000 18:14 UTC
+
+const toJulian = (ms: number) => ms / MS_PER_DAY + UNIX_EPOCH_JD;
+const fromJulian = (jd: number) => (jd - UNIX_EPOCH_JD) * MS_PER_DAY;
+
+// date is "YYYY-MM-DD"; the solar day is anchored at local noon via the longitude
+const solarTransit = (date: string, lng: number) => {
+  const [y, m, d] = date.split('-').map(Number);
+  const n = Math.round(toJulian(Date.UTC(y, m - 1, d, 12)) - J2000);
+  const meanSolarTime = n - lng / 360;
+  const meanAnomaly = ((357.5291 + 0.98560028 * meanSolarTime) % 360) * RAD;
+  const center = 1.9148 * Math.sin(meanAnomaly) + 0.02 * Math.sin(2 * meanAnomaly) + 0.0003 * Math.sin(3 * meanAnomaly);
+  const eclipticLng = ((meanAnomaly / RAD + center + 180 + 102.9372) % 360) * RAD;
+  const transit = J2000 + meanSolarTime + 0.0053 * Math.sin(meanAnomaly) - 0.0069 * Math.sin(2 * eclipticLng);
+  const declination = Math.asin(Math.sin(eclipticLng) * Math.sin(OBLIQUITY));
+  return { transit, declination };
+};
+
+// Half the time (in days) the sun spends above `altitude`; null if it never crosses it that day
+const halfArc = (lat: number, declination: number, altitude: number): number | null => {
+  const cosH = (Math.sin(altitude * RAD) - Math.sin(lat * RAD) * Math.sin(declination)) / (Math.cos(lat * RAD) * Math.cos(declination));
+  if (cosH > 1 || cosH < -1) return null;
+  return Math.acos(cosH) / (2 * Math.PI);
+};
+
+const formatLocal = (ms: number, timeZone?: string): string => {
+  const options: Intl.DateTimeFormatOptions = { hour: '2-digit', minute: '2-digit', hourCycle: 'h23' };
+  try {
+    return new Intl.DateTimeFormat('en-GB', { ...options, timeZone }).format(ms);
+  } catch {
+    // Unknown zone: the browser's own zone is the best remaining guess
+    return new Intl.DateTimeFormat('en-GB', options).format(ms);
+  }
+};
+
+const MOON_NAMES = ['New Moon', 'Waxing Crescent', 'First Quarter', 'Waxing Gibbous', 'Full Moon', 'Waning Gibbous', 'Last Quarter', 'Waning Crescent'];
+
+export const calculateMoonPhase = (ms: number): MoonPhase => {
+  const age = ((ms - KNOWN_NEW_MOON_MS) / MS_PER_DAY) % SYNODIC_MONTH;
+  const fraction = (age < 0 ? age + SYNODIC_MONTH : age) / SYNODIC_MONTH;
+  return {
+    fraction,
+    illumination: (1 - Math.cos(2 * Math.PI * fraction)) / 2,
+    name: MOON_NAMES[Math.round(fraction * 8) % 8],
+  };
+};
+
+/**
+ * Sun and moon for a day at a place. `timeZone` should be the trail's IANA zone;
+ * without it times are shown in the browser's zone.
+ */
+export const calculateSolarTimes = (date: string, { lat, lng }: LatLng, timeZone?: string): SolarTimes => {
+  const { transit, declination } = solarTransit(date, lng);
+
+  const event = (altitude: number) => {
+    const arc = halfArc(lat, declination, altitude);
+    if (arc === null) return { rise: null, set: null, arc: null };
+    return {
+      rise: formatLocal(fromJulian(transit - arc), timeZone),
+      set: formatLocal(fromJulian(transit + arc), timeZone),
+      arc,
+    };
+  };
+
+  const sun = event(SUNRISE_ALTITUDE);
+  const civil = event(CIVIL_ALTITUDE);
+  const nautical = event(NAUTICAL_ALTITUDE);
+
+  // No crossing means polar night (sun stays low) or midnight sun (sun stays up)
+  const sunAlwaysUp = sun.arc === null && declination * lat > 0;
+
+  return {
+    sunrise: sun.rise,
+    sunset: sun.set,
+    civilDawn: civil.rise,
+    civilDusk: civil.set,
+    nauticalDawn: nautical.rise,
+    nauticalDusk: nautical.set,
+    daylightMinutes: sun.arc === null ? (sunAlwaysUp ? 24 * 60 : 0) : Math.round(sun.arc * 2 * 24 * 60),
+    moon: calculateMoonPhase(fromJulian(transit)),
+  };
+};
+
+/**
+ * Attaches solar times for the hike date and makes the computed sunset the one the app uses.
+ * The model's sunset is kept only when there are no coordinates to compute from.
+ */
+export const applySolarTimes = (data: TripData, date: string, fallbackCoordinates?: LatLng): TripData => {
+  const trailhead = data.trailhead ?? fallbackCoordinates;
+  if (!trailhead || !date) return data;
+
+  const solar = calculateSolarTimes(date, trailhead, data.timeZone);
+  if (!solar.sunset) return { ...data, trailhead, solar };
+
+  const modelSunset = getProvenance(data, 'sunsetTime').source === 'default' ? undefined : data.sunsetTime;
+  const note = modelSunset && modelSunset !== solar.sunset
+    ? `Calculated from trail coordinates; the AI said ${modelSunset}.`
+    : 'Calculated from trail coordinates.';
+
+  return withProvenance(
+    { ...data, trailhead, solar, sunsetTime: solar.sunset },
+    'sunsetTime',
+    { source: 'computed', confidence: data.timeZone ? 'high' : 'medium', note: data.timeZone ? note : `${note} Time zone assumed to be yours.` },
+  );
+};
@@ -0,0 +1,131 @@
+import { ElevationPoint, ExposureWindow, HourlyWeather, PacePlan, StormExposure, TripData } from '../types';
+import { elevationSeries, elevationAtKm } from './elevation';
+import { formatMinutes, minutesAtKm, toMinutes } from './pace';
+import { isDefaulted } from './provenance';
+
+/**
+ * STORM EXPOSURE: When the hiker is on ground with no shelter from lightning (above treeline, or up near
+ * the high point), and whether the forecast puts thunder in that window. Afternoon storms are only as
+ * dangerous as where you are when they arrive.
+ */
+
+// Rough alpine treeline by |latitude| for continental ranges; maritime mountains sit lower
+const TREELINE_BY_LATITUDE: [number, number][] = [[0, 3800], [30, 3800], [40, 3400], [50, 2100], [60, 900], [70, 200], [90, 0]];
+const NEAR_SUMMIT = { share: 0.15, minM: 40, maxM: 150 }; // Top slice of the climb that counts as "the summit"
+const MIN_SUMMIT_RELIEF_M = 100; // Flatter routes have no summit to get caught on
+const SAMPLE_KM = 0.1;
+const MAX_SAMPLES = 200;
+const THUNDER_PCT = 30; // Matches the default thunder rule
+const RULE_OF_THUMB_OFF_SUMMIT = '12:00'; // "Off the summit by noon" on stormy days without an hourly forecast
+const STORM_WORDS = ['storm', 'thunder'];
+
+export const estimateTreeline = (lat: number): number => {
+  const a = Math.min(90, Math.abs(lat));
+  const i = TREELINE_BY_LATITUDE.findIndex(([l]) => l >= a);
+  if (i <= 0) return TREELINE_BY_LATITUDE[0][1];
+  const [l0, e0] = TREELINE_BY_LATITUDE[i - 1];
+  const [l1, e1] = TREELINE_BY_LATITUDE[i];
+  return e0 + ((e1 - e0) * (a - l0)) / (l1 - l0);
+};
+
+// Altitudes above sea level: the 0-100 profile spread between the imported track's lowest and highest points,
+// or between the model's trailhead and high point (taking the trailhead as the low point)
+const absolutePoints = (data: TripData): ElevationPoint[] | null => {
+  const profile = data.elevationProfile;
+  if (!profile || profile.length < 2 || isDefaulted(data, 'elevationProfile')) return null;
+  const low = data.routeStats?.minAltitudeM ?? data.trailheadAltitudeM;
+  const high = data.routeStats?.maxAltitudeM ?? data.highPointM;
+  if (low === undefined || high === undefined || high < low) return null;
+  const step = data.distanceKm / (profile.length - 1);
+  return profile.map((p, i) => ({ km: step * i, ele: low + (p / 100) * (high - low) }));
+};
+
+// e.g. "13:40–14:25 (km 3.9–5.1)"
+export const describeExposureWindow = (w: ExposureWindow) =>
+  `${w.enter}–${w.leave} (km ${w.fromKm.toFixed(1)}–${w.toKm.toFixed(1)})`;
+
+export interface StormExposureOptions {
+  timeScale?: number; // Stretches the pace plan's clock (a simulated slow or fast day)
+  hours?: HourlyWeather[]; // Forecast hours to check; defaults to the whole forecast
+}
+
+export const assessStormExposure = (
+  data: TripData,
+  plan: PacePlan,
+  startTime: string,
+  { timeScale = 1, hours = data.forecast?.hours || [] }: StormExposureOptions = {},
+): StormExposure => {
+  if (isDefaulted(data, 'distanceKm') || data.distanceKm <= 0) return { windows: [] };
+
+  const absolute = absolutePoints(data);
+  const points = absolute ?? elevationSeries(data).points;
+  const treelineM = absolute && data.trailhead ? Math.round(estimateTreeline(data.trailhead.lat)) : undefined;
+  const elevations = points.map(p => p.ele);
+  const high = Math.max(...elevations);
+  const relief = high - Math.min(...elevations);
+  const nearSummitM = Math.min(NEAR_SUMMIT.maxM, Math.max(NEAR_SUMMIT.minM, relief * NEAR_SUMMIT.share));
+
+  const reasonAt = (ele: number): ExposureWindow['reason'] | null => {
+    if (treelineM !== undefined && ele >= treelineM) return 'treeline';
+    if (relief >= MIN_SUMMIT_RELIEF_M && ele >= high - nearSummitM) return 'summit';
+    return null;
+  };
+
+  const start = toMinutes(startTime);
+  const clock = (km: number) => start + minutesAtKm(plan, km) * timeScale;
+
+  // Walk the route in small steps and group consecutive exposed samples into windows
+  const count = Math.min(MAX_SAMPLES, Math.max(2, Math.ceil(data.distanceKm / SAMPLE_KM)));
+  const step = data.distanceKm / count;
+  const windows: ExposureWindow[] = [];
+  let open: { fromKm: number; toKm: number; treeline: boolean } | null = null;
+  for (let i = 0; i <= count; i++) {
+    const km = step * i;
+    const reason = reasonAt(elevationAtKm(points, km));
+    if (reason) {
+      open = open ? { ...open, toKm: km, treeline: open.treeline || reason === 'treeline' } : { fromKm: km, toKm: km, treeline: reason === 'treeline' };
+    }
+    if (open && (!reason || i === count)) {
+      windows.push({
+        fromKm: Math.round(open.fromKm * 100) / 100,
+        toKm: Math.round(open.toKm * 100) / 100,
+        enter: formatMinutes(clock(open.fromKm)),
+        leave: formatMinutes(clock(open.toKm)),
+        reason: open.treeline ? 'treeline' : 'summit',
+      });
+      open = null;
+    }
+  }
+
+  // Worst thunder hour that overlaps any exposed window
+  let thunderPct: number | undefined;
+  let thunderTime: string | undefined;
+  let thunderWindow: ExposureWindow | undefined;
+  windows.forEach(w => {
+    const enter = clock(w.fromKm);
+    const leave = Math.max(clock(w.toKm), enter + 1);
+    hours.forEach(h => {
+      const from = toMinutes(h.time);
+      if (h.thunderPct === undefined || from + 60 <= enter || from >= leave) return;
+      if (thunderPct === undefined || h.thunderPct > thunderPct) {
+        thunderPct = h.thunderPct;
+        thunderTime = h.time;
+        thunderWindow = w;
+      }
+    });
+  });
+
+  // Deadline: the first stormy forecast hour, or the old rule of thumb when only the description mentions storms
+  const stormy = (text?: string) => !!text && STORM_WORDS.some(w => text.toLowerCase().includes(w));
+  const firstStormHour = hours.find(h => (h.thunderPct ?? 0) >= THUNDER_PCT || stormy(h.condition));
+  const offSummit = windows.length === 0
+    ? {}
+    : firstStormHour
+      ? { offSummitBy: firstStormHour.time, offSummitBasis: 'forecast' as const }
+      : !isDefaulted(data, 'weatherCondition') && stormy(data.weatherCondition)
+        ? { offSummitBy: RULE_OF_THUMB_OFF_SUMMIT, offSummitBasis: 'rule-of-thumb' as const }
+        : {};
+
+  return { windows, treelineM, thunderPct, thunderTime, thunderWindow, ...offSummit };
+};
+
@@ -0,0 +1,116 @@
+import { Exertion, HourlyWeather, PacePlan, SupplyPlan, ThermalGrade, ThermalStress, TripData, UserProfile, WaterLeg } from '../types';
+import { isDefaulted } from './provenance';
+import { minutesAtKm } from './pace';
+
+/**
+ * SUPPLIES: How much to drink and eat, and where to refill. Sweat rate comes from effort, temperature and
+ * body size; energy from time on the move plus the work of lifting body and pack up the climb.
+ * Only reliable water sources are counted on; seasonal ones are listed as backups.
+ */
+
+const ASSUMED_BODY_KG = 70;
+const ASSUMED_TEMP_C = 15;
+
+// Sweat (L/h for a 70 kg hiker): a base, more for effort and warmth, more again when the heat is graded
+const BASE_SWEAT_L_PER_H = 0.4;
+const EXERTION_SWEAT_L_PER_H: Record<Exertion, number> = { light: 0, moderate: 0.15, hard: 0.3 };
+const WARM_SWEAT_L_PER_H_PER_C = 0.03; // Per degree above 15°C
+const HEAT_SWEAT_L_PER_H: Record<ThermalGrade, number> = { none: 0, caution: 0.1, high: 0.2, extreme: 0.3 };
+const SWEAT_RANGE_L_PER_H = [0.3, 1.5];
+
+const RESERVE_L = 0.5; // Left in the bottle at each refill and at the finish
+
+// Energy: walking at about 4 METs, plus climbing at ~25% muscle efficiency
+const WALKING_MET = 4;
+const CLIMB_EFFICIENCY = 0.25;
+const J_PER_KCAL = 4184;
+
+// Eat about half of what you burn, no more than the gut takes in (~250 kcal/h); trail food is ~4 kcal/g
+const FOOD_SHARE = 0.5;
+const MAX_FOOD_KCAL_PER_H = 250;
+const FOOD_KCAL_PER_KG = 4000;
+
+const roundUp = (litres: number) => Math.ceil(litres * 4) / 4; // To the nearest 250 ml
+
+const meanTemp = (data: TripData, hours: HourlyWeather[]): number => {
+  if (hours.length > 0) return hours.reduce((sum, h) => sum + h.tempC, 0) / hours.length;
+  return isDefaulted(data, 'tempC') ? ASSUMED_TEMP_C : data.tempC;
+};
+
+/**
+ * Null without a known distance. `hours` are the forecast hours on the trail; `packKg` is the carried weight
+ * the climb has to lift, taken from the rough estimate or the user's pack list rather than from this plan.
+ */
+export const planSupplies = (
+  data: TripData,
+  user: UserProfile,
+  plan: PacePlan,
+  thermal: ThermalStress | null,
+  hours: HourlyWeather[],
+  packKg: number,
+): SupplyPlan | null => {
+  if (isDefaulted(data, 'distanceKm') || data.distanceKm <= 0 || plan.totalMinutes <= 0) return null;
+
+  const bodyWeightKg = user.bodyWeightKg && user.bodyWeightKg > 0 ? user.bodyWeightKg : ASSUMED_BODY_KG;
+  const tripHours = plan.totalMinutes / 60;
+
+  const exertion = thermal?.exertion ?? 'moderate';
+  const sweat = (BASE_SWEAT_L_PER_H
+    + EXERTION_SWEAT_L_PER_H[exertion]
+    + Math.max(0, meanTemp(data, hours) - ASSUMED_TEMP_C) * WARM_SWEAT_L_PER_H_PER_C
+    + HEAT_SWEAT_L_PER_H[thermal?.heat ?? 'none']) * (bodyWeightKg / ASSUMED_BODY_KG);
+  const sweatLPerHour = Math.min(SWEAT_RANGE_L_PER_H[1], Math.max(SWEAT_RANGE_L_PER_H[0], sweat));
+
+  // Stretches between reliable sources on the route
+  const sources = (data.waterSources || []).filter(s => s.km > 0 && s.km < data.distanceKm);
+  const refills = sources.filter(s => s.reliability === 'reliable');
+  const stops = [{ km: 0, name: undefined as string | undefined }, ...refills.map(s => ({ km: s.km, name: s.name })), { km: data.distanceKm, name: undefined }];
+  const legs: WaterLeg[] = stops.slice(0, -1).map((stop, i) => {
+    const minutes = minutesAtKm(plan, stops[i + 1].km) - minutesAtKm(plan, stop.km);
+    return {
+      fromKm: stop.km,
+      toKm: stops[i + 1].km,
+      minutes,
+      carryL: roundUp((minutes / 60) * sweatLPerHour + RESERVE_L),
+      refillAt: stop.name,
+    };
+  }).filter(leg => leg.toKm > leg.fromKm);
+
+  const climbKcal = isDefaulted(data, 'elevationM') ? 0
+    : ((bodyWeightKg + packKg) * 9.81 * data.elevationM) / CLIMB_EFFICIENCY / J_PER_KCAL;
+  const kcalBurned = Math.round(WALKING_MET * (bodyWeightKg + packKg) * tripHours + climbKcal);
+  const foodKcal = Math.round(Math.min(kcalBurned * FOOD_SHARE, MAX_FOOD_KCAL_PER_H * tripHours) / 50) * 50;
+
+  return {
+    bodyWeightKg,
+    bodyWeightAssumed: bodyWeightKg !== user.bodyWeightKg,
+    hours: tripHours,
+    sweatLPerHour,
+    waterL: roundUp(sweatLPerHour * tripHours),
+    legs,
+    startCarryL: legs[0]?.carryL ?? 0,
+    maxCarryL: Math.max(0, ...legs.map(leg => leg.carryL)),
+    backupSources: sources.filter(s => s.reliability !== 'reliable'),
+    kcalBurned,
+    foodKcal,
+    foodKg: parseFloat((foodKcal / FOOD_KCAL_PER_KG).toFixed(2)),
+  };
+};
+
+// Packing list entries for the plan, e.g. ["Water capacity for 2.5 L", "Water filter or purification tablets"]
+export const supplyGear = (plan: SupplyPlan | null): string[] => {
+  if (!plan) return [];
+  return [
+    `Water capacity for ${plan.maxCarryL} L`,
+    plan.legs.length > 1 ? 'Water filter or purification tablets' : '',
+    plan.sweatLPerHour >= 0.75 || plan.hours >= 4 ? 'Electrolyte tablets or drink mix' : '',
+    `About ${plan.foodKcal} kcal of trail food (~${Math.round(plan.foodKg * 1000)} g)`,
+  ].filter(Boolean);
+};
+
+// One line for share cards, e.g. "Carry 1.5 L, refill at Bear Creek (km 4.2) • ~1,100 kcal burned, eat ~500"
+export const describeSupplies = (plan: SupplyPlan): string => {
+  const refills = plan.legs.filter(leg => leg.refillAt).map(leg => `${leg.refillAt} (km ${leg.fromKm.toFixed(1)})`);
+  const water = `Carry ${plan.startCarryL} L${refills.length > 0 ? `, refill at ${refills.join(', ')}` : ', no refills'}`;
+  return `${water} • ~${plan.kcalBurned.toLocaleString()} kcal burned, eat ~${plan.foodKcal.toLocaleString()}`;
+};
@@ -0,0 +1,108 @@
+import { Exertion, HourlyWeather, ThermalGrade, ThermalStress, TripData } from '../types';
+import { isDefaulted } from './provenance';
+
+/**
+ * THERMAL STRESS: How hot or cold the trail will feel (heat index from humidity, wind chill from wind),
+ * graded for effort. Hard climbing under a heavy pack makes its own heat, so heat illness sets in at a lower
+ * heat index; an easy stroll makes little, so the cold bites sooner.
+ */
+
+export const THERMAL_GRADES: ThermalGrade[] = ['none', 'caution', 'high', 'extreme'];
+
+// Heat index bands (NWS caution / extreme caution / danger), lowered by effort
+const HEAT_INDEX_C = { caution: 27, high: 32, extreme: 39 };
+const HEAT_EXERTION_OFFSET_C: Record<Exertion, number> = { light: 0, moderate: 2, hard: 4 };
+
+// Wind chill bands; wet clothing moves each band about 5°C warmer
+const WIND_CHILL_C = { caution: 5, high: -5, extreme: -25 };
+const WET_OFFSET_C = 5;
+const COLD_EXERTION_OFFSET_C: Record<Exertion, number> = { light: 3, moderate: 0, hard: 0 };
+
+const WET_PRECIP_PCT = 50;
+const WET_WORDS = ['rain', 'shower', 'drizzle', 'sleet', 'snow'];
+const WINDY_WORDS = ['wind', 'gust', 'gale'];
+const ASSUMED_WINDY_KPH = 25; // "Windy" in the report's text, no forecast numbers
+
+// Climbing (m per km) and pack weight (kg) that each add a step of effort
+const CLIMB_STEPS = [40, 80];
+const PACK_STEPS_KG = [8, 14];
+
+export const estimateExertion = (gainPerKm: number | undefined, packKg: number): Exertion => {
+  const points = CLIMB_STEPS.filter(s => (gainPerKm ?? 0) >= s).length + PACK_STEPS_KG.filter(s => packKg >= s).length;
+  return points >= 3 ? 'hard' : points >= 1 ? 'moderate' : 'light';
+};
+
+// NWS (Rothfusz) heat index; the index isn't defined below about 27°C, where air temperature stands in
+export const heatIndexC = (tempC: number, humidityPct?: number): number => {
+  if (humidityPct === undefined || tempC < 26.7) return tempC;
+  const t = tempC * 9 / 5 + 32;
+  const rh = humidityPct;
+  let hi = -42.379 + 2.04901523 * t + 10.14333127 * rh - 0.22475541 * t * rh - 0.00683783 * t * t
+    - 0.05481717 * rh * rh + 0.00122874 * t * t * rh + 0.00085282 * t * rh * rh - 0.00000199 * t * t * rh * rh;
+  if (rh < 13 && t <= 112) hi -= ((13 - rh) / 4) * Math.sqrt((17 - Math.abs(t - 95)) / 17);
+  else if (rh > 85 && t <= 87) hi += ((rh - 85) / 10) * ((87 - t) / 5);
+  return (hi - 32) * 5 / 9;
+};
+
+// Environment Canada / NWS wind chill; only defined at 10°C or colder with some wind
+export const windChillC = (tempC: number, windKph?: number): number => {
+  if (windKph === undefined || tempC > 10 || windKph <= 4.8) return tempC;
+  const v = Math.pow(windKph, 0.16);
+  return Math.min(tempC, 13.12 + 0.6215 * tempC - 11.37 * v + 0.3965 * tempC * v);
+};
+
+const gradeHeat = (heatIndex: number, exertion: Exertion): ThermalGrade => {
+  const felt = heatIndex + HEAT_EXERTION_OFFSET_C[exertion];
+  if (felt >= HEAT_INDEX_C.extreme) return 'extreme';
+  if (felt >= HEAT_INDEX_C.high) return 'high';
+  if (felt >= HEAT_INDEX_C.caution) return 'caution';
+  return 'none';
+};
+
+const gradeCold = (windChill: number, wet: boolean, exertion: Exertion): ThermalGrade => {
+  const felt = windChill - COLD_EXERTION_OFFSET_C[exertion] - (wet ? WET_OFFSET_C : 0);
+  if (felt <= WIND_CHILL_C.extreme) return 'extreme';
+  if (felt <= WIND_CHILL_C.high) return 'high';
+  if (felt <= WIND_CHILL_C.caution) return 'caution';
+  return 'none';
+};
+
+/**
+ * Grades the hours on the trail. Without forecast hours, falls back to the report's single temperature and
+ * weather text (rain words mean wet, wind words mean a stiff breeze). Returns null when the temperature is unknown.
+ */
+export const assessThermalStress = (data: TripData, hours: HourlyWeather[], packKg: number): ThermalStress | null => {
+  const knownDistance = !isDefaulted(data, 'distanceKm') && !isDefaulted(data, 'elevationM') && data.distanceKm > 0;
+  const exertion = estimateExertion(knownDistance ? data.elevationM / data.distanceKm : undefined, packKg);
+
+  if (hours.length > 0) {
+    const hottest = hours.map(h => ({ value: heatIndexC(h.tempC, h.humidityPct), time: h.time }))
+      .reduce((best, h) => (h.value > best.value ? h : best));
+    const coldest = hours.map(h => ({ value: windChillC(h.tempC, h.windKph), time: h.time }))
+      .reduce((best, h) => (h.value < best.value ? h : best));
+    const wet = hours.some(h => (h.precipPct ?? 0) >= WET_PRECIP_PCT || WET_WORDS.some(w => h.condition?.toLowerCase().includes(w)));
+    return {
+      exertion,
+      heatIndexC: hottest.value,
+      heatIndexTime: hottest.time,
+      windChillC: coldest.value,
+      windChillTime: coldest.time,
+      wet,
+      heat: gradeHeat(hottest.value, exertion),
+      cold: gradeCold(coldest.value, wet, exertion),
+    };
+  }
+
+  if (isDefaulted(data, 'tempC')) return null;
+  const weather = isDefaulted(data, 'weatherCondition') ? '' : data.weatherCondition.toLowerCase();
+  const wet = WET_WORDS.some(w => weather.includes(w));
+  const windChill = windChillC(data.tempC, WINDY_WORDS.some(w => weather.includes(w)) ? ASSUMED_WINDY_KPH : undefined);
+  return {
+    exertion,
+    heatIndexC: data.tempC,
+    windChillC: windChill,
+    wet,
+    heat: gradeHeat(data.tempC, exertion),
+    cold: gradeCold(windChill, wet, exertion),
+  };
+};
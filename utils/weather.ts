@@ -0,0 +1,71 @@
+import { HourlyWeather, WeatherForecast } from '../types';
+import { toMinutes } from './pace';
+
+/**
+ * HOURLY WEATHER: Lines the forecast up with the hike. Each forecast hour covers [time, time + 60 min),
+ * and only the hours the hiker is actually out count toward the risk.
+ */
+
+export interface WeatherPeak {
+  value: number;
+  time: string; // Forecast hour the peak falls in
+}
+
+export interface HikeWeather {
+  hours: HourlyWeather[];
+  maxTemp?: WeatherPeak;
+  minTemp?: WeatherPeak;
+  gust?: WeatherPeak; // Strongest gust, or sustained wind when the source gave no gusts
+  precip?: WeatherPeak;
+  thunder?: WeatherPeak;
+  uv?: WeatherPeak;
+  visibility?: WeatherPeak; // Lowest
+  conditions: string; // Every distinct hourly condition, lower case
+}
+
+// Forecast hours that overlap [start, end) minutes since midnight
+export const hoursBetween = (forecast: WeatherForecast | undefined, start: number, end: number): HourlyWeather[] =>
+  (forecast?.hours || []).filter(h => {
+    const from = toMinutes(h.time);
+    return from + 60 > start && from < end;
+  });
+
+const peak = (hours: HourlyWeather[], read: (h: HourlyWeather) => number | undefined, lowest = false): WeatherPeak | undefined =>
+  hours.reduce<WeatherPeak | undefined>((best, h) => {
+    const value = read(h);
+    if (value === undefined) return best;
+    if (!best || (lowest ? value < best.value : value > best.value)) return { value, time: h.time };
+    return best;
+  }, undefined);
+
+export const summarizeHours = (hours: HourlyWeather[]): HikeWeather => ({
+  hours,
+  maxTemp: peak(hours, h => h.tempC),
+  minTemp: peak(hours, h => h.tempC, true),
+  gust: peak(hours, h => h.gustKph ?? h.windKph),
+  precip: peak(hours, h => h.precipPct),
+  thunder: peak(hours, h => h.thunderPct),
+  uv: peak(hours, h => h.uvIndex),
+  visibility: peak(hours, h => h.visibilityKm, true),
+  conditions: [...new Set(hours.map(h => h.condition?.toLowerCase()).filter(Boolean))].join(', '),
+});
+
+// Minutes of [start, end) spent in hours that match
+export const exposureMinutes = (hours: HourlyWeather[], start: number, end: number, matches: (h: HourlyWeather) => boolean): number =>
+  hours.filter(matches).reduce((sum, h) => {
+    const from = toMinutes(h.time);
+    return sum + Math.max(0, Math.min(end, from + 60) - Math.max(start, from));
+  }, 0);
+
+// The same forecast, warmer or colder by `deltaC` (What If temperature slider, simulated days)
+export const shiftForecastTemps = (forecast: WeatherForecast | undefined, deltaC: number): WeatherForecast | undefined =>
+  forecast && deltaC !== 0
+    ? {
+        ...forecast,
+        hours: forecast.hours.map(h => ({
+          ...h,
+          tempC: h.tempC + deltaC,
+          feelsLikeC: h.feelsLikeC === undefined ? undefined : h.feelsLikeC + deltaC,
+        })),
+      }
+    : forecast;
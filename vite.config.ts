@@ -1,7 +1,44 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Dev-server endpoint used by the record/replay AI provider (services/providers/recordingProvider.ts)
+const recordingsPlugin = (dir: string): Plugin => ({
+  name: 'trailsense-recordings',
+  configureServer(server) {
+    server.middlewares.use('/__recordings', (req, res) => {
+      const key = (req.url || '').replace(/^\//, '');
+      if (!/^[\w-]+$/.test(key)) {
+        res.statusCode = 400;
+        res.end('Invalid recording key');
+        return;
+      }
+      const file = path.join(dir, `${key}.json`);
+
+      if (req.method === 'POST') {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+          fs.mkdirSync(dir, { recursive: true });
+          fs.writeFileSync(file, body);
+          res.statusCode = 204;
+          res.end();
+        });
+        return;
+      }
+
+      if (!fs.existsSync(file)) {
+        res.statusCode = 404;
+        res.end('Recording not found');
+        return;
+      }
+      res.setHeader('Content-Type', 'application/json');
+      res.end(fs.readFileSync(file));
+    });
+  },
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,10 +46,12 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), recordingsPlugin(path.resolve(__dirname, 'fixtures/recordings'))],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER),
+        'process.env.WEATHER_PROVIDER': JSON.stringify(env.WEATHER_PROVIDER)
       },
       resolve: {
         alias: {